@@ -0,0 +1,30 @@
+import { GUEST_ID_HEADER } from '../shared/types/api';
+
+// Fetch for app API calls. Every request carries a device-local guest id, which the
+// server only uses for logged-out players, so guests get their own sessions and
+// history instead of sharing one account.
+
+const GUEST_ID_STORAGE_KEY = 'postcipher:guest-id';
+
+let guestId: string | null = null;
+
+const getGuestId = (): string => {
+  if (guestId) return guestId;
+  try {
+    guestId = localStorage.getItem(GUEST_ID_STORAGE_KEY);
+    if (!guestId) {
+      guestId = crypto.randomUUID();
+      localStorage.setItem(GUEST_ID_STORAGE_KEY, guestId);
+    }
+  } catch {
+    // Storage unavailable: the id lasts for this page load only
+    guestId = crypto.randomUUID();
+  }
+  return guestId;
+};
+
+export const apiFetch = (input: string, init: RequestInit = {}): Promise<Response> => {
+  const headers = new Headers(init.headers);
+  headers.set(GUEST_ID_HEADER, getGuestId());
+  return fetch(input, { ...init, headers });
+};
@@ -1,14 +1,40 @@
 import { useState, useEffect, useRef, type ReactNode } from 'react';
 import { navigateTo } from '@devvit/web/client';
+import { apiFetch } from '../api';
 import { useCryptogram } from '../hooks/useCryptogram';
-import { formatTime } from '../../shared/types/puzzle';
-import { generateCipherMap } from '../../shared/cryptogram/engine';
-import type { PlayHistoryEntry, LeaderboardEntry } from '../../shared/types/api';
+import { ReplayViewer } from './ReplayViewer';
+import { formatTime, MAX_HINTS } from '../../shared/types/puzzle';
+import type {
+  ArchiveDay,
+  GetArchiveDaysResponse,
+  GetScoreHistoryResponse,
+  PlayHistoryEntry,
+  LeaderboardBoard,
+  LeaderboardEntry,
+  LeaderboardQuery,
+  LeaderboardView,
+  ScoreHistoryQuery,
+} from '../../shared/types/api';
 import { getRedditPostUrl } from '../../shared/reddit-link';
 import { TERMS_CONTENT } from '../legal/terms-content';
 import { PRIVACY_CONTENT } from '../legal/privacy-content';
 
 type GameMode = 'daily' | 'practice';
+type HistoryFilter = 'all' | GameMode | 'in-progress';
+
+const HISTORY_FILTERS: { id: HistoryFilter; label: string }[] = [
+  { id: 'all', label: 'All' },
+  { id: 'daily', label: 'Daily' },
+  { id: 'practice', label: 'Practice' },
+  { id: 'in-progress', label: 'In progress' },
+];
+const HISTORY_PAGE_SIZE = 20;
+const LEADERBOARD_PAGE_SIZE = 10;
+const ARCHIVE_STATUS: Record<ArchiveDay['status'], { label: string; className: string }> = {
+  solved: { label: '✓ Solved', className: 'text-emerald-400' },
+  'in-progress': { label: 'In progress', className: 'text-amber-400' },
+  unplayed: { label: 'Not played', className: 'text-zinc-500' },
+};
 
 function renderLegalContent(content: string): ReactNode {
   const lines = content.split('\n');
@@ -38,12 +64,23 @@ function renderLegalContent(content: string): ReactNode {
 
 export const App = () => {
   const [mode, setMode] = useState<GameMode>('daily');
-  const [showKey, setShowKey] = useState(false);
+  /** Past daily picked from the archive; null plays the post's own daily */
+  const [archiveDate, setArchiveDate] = useState<string | null>(null);
+  const [showArchive, setShowArchive] = useState(false);
+  const [archiveDays, setArchiveDays] = useState<ArchiveDay[]>([]);
+  const [archiveLoading, setArchiveLoading] = useState(false);
   const [showHistory, setShowHistory] = useState(false);
   const [showTerms, setShowTerms] = useState(false);
   const [showPrivacy, setShowPrivacy] = useState(false);
   const [playHistory, setPlayHistory] = useState<PlayHistoryEntry[]>([]);
   const [historyLoading, setHistoryLoading] = useState(false);
+  const [historyFilter, setHistoryFilter] = useState<HistoryFilter>('all');
+  /** Cursor for the next history page; null when everything is loaded */
+  const [historyCursor, setHistoryCursor] = useState<string | null>(null);
+  /** Result of the last export/delete-my-data action, shown under history */
+  const [dataNotice, setDataNotice] = useState<string | null>(null);
+  /** Logged out: scores aren't ranked and history is temporary (set from server responses) */
+  const [isGuest, setIsGuest] = useState(false);
   const [selectedSubreddit, setSelectedSubreddit] = useState<string>('');
   const [customSubreddit, setCustomSubreddit] = useState<string>('');
   const [appliedCustomSubreddit, setAppliedCustomSubreddit] = useState<string>('');
@@ -53,6 +90,11 @@ export const App = () => {
   const [userRank, setUserRank] = useState<number | undefined>();
   const [totalPlayers, setTotalPlayers] = useState<number>(0);
   const [leaderboardLoading, setLeaderboardLoading] = useState(false);
+  const [leaderboardView, setLeaderboardView] = useState<LeaderboardView>('page');
+  const [leaderboardPage, setLeaderboardPage] = useState(1);
+  const [leaderboardBoard, setLeaderboardBoard] = useState<LeaderboardBoard>('live');
+  /** Leaderboard player whose solve is being replayed */
+  const [replayUser, setReplayUser] = useState<string | null>(null);
   const [confirmDialog, setConfirmDialog] = useState<{ message: string; onConfirm: () => void } | null>(null);
 
   const practiceFilter = selectedSubreddit || appliedCustomSubreddit;
@@ -61,6 +103,7 @@ export const App = () => {
     gameState,
     loading,
     error,
+    notice,
     currentScore,
     handleTileClick,
     handleLetterClick,
@@ -71,12 +114,93 @@ export const App = () => {
     loadNextPuzzle,
     saveProgress,
     loadFromHistoryEntry,
-  } = useCryptogram({ mode, ...(practiceFilter ? { subreddit: practiceFilter } : {}) });
+  } = useCryptogram({
+    mode,
+    ...(practiceFilter ? { subreddit: practiceFilter } : {}),
+    ...(mode === 'daily' && archiveDate ? { archiveDate } : {}),
+  });
+
+  // Fetch a page of history from the server (filters are applied there); no cursor = first page
+  const loadHistory = async (filter: HistoryFilter, cursor?: string) => {
+    setHistoryLoading(true);
+    try {
+      const query: ScoreHistoryQuery = { limit: String(HISTORY_PAGE_SIZE) };
+      if (filter === 'daily' || filter === 'practice') query.mode = filter;
+      if (filter === 'in-progress') query.inProgress = 'true';
+      if (cursor) query.cursor = cursor;
+      const res = await apiFetch(`/api/score/history?${new URLSearchParams({ ...query }).toString()}`);
+      if (!res.ok) throw new Error(`History request failed: ${res.status}`);
+      const data: GetScoreHistoryResponse = await res.json();
+      setPlayHistory((prev) => (cursor ? [...prev, ...data.history] : data.history));
+      setHistoryCursor(data.nextCursor ?? null);
+      setIsGuest(data.guest ?? false);
+    } catch (e) {
+      console.error('Failed to load history', e);
+      if (!cursor) setPlayHistory([]);
+      setHistoryCursor(null);
+    } finally {
+      setHistoryLoading(false);
+    }
+  };
+
+  const openHistory = () => {
+    setShowHistory(true);
+    setHistoryFilter('all');
+    setDataNotice(null);
+    void loadHistory('all');
+  };
+
+  const openArchive = async () => {
+    setShowArchive(true);
+    setArchiveLoading(true);
+    try {
+      const res = await apiFetch('/api/puzzle/archive/days');
+      if (!res.ok) throw new Error(`Archive request failed: ${res.status}`);
+      const data: GetArchiveDaysResponse = await res.json();
+      setArchiveDays(data.days);
+    } catch (e) {
+      console.error('Failed to load archive', e);
+      setArchiveDays([]);
+    } finally {
+      setArchiveLoading(false);
+    }
+  };
+
+  // Play a past daily (or return to the post's own daily with null)
+  const playArchiveDate = async (date: string | null) => {
+    await saveProgress?.();
+    setMode('daily');
+    setArchiveDate(date);
+    setSelectedSubreddit('');
+    setCustomSubreddit('');
+    setAppliedCustomSubreddit('');
+    setShowArchive(false);
+  };
+
+  // Download everything the server stores about this user as a JSON file
+  const exportMyData = async () => {
+    try {
+      const res = await apiFetch('/api/me/export');
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.message || `Export failed: ${res.status}`);
+      const json = JSON.stringify(body.data, null, 2);
+      const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `postcipher-data-${body.data.username}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+      setDataNotice('Your data export has been downloaded.');
+    } catch (err) {
+      console.error('Failed to export data:', err);
+      setDataNotice(err instanceof Error ? err.message : 'Failed to export data');
+    }
+  };
 
   // Load available subreddits for practice mode
   useEffect(() => {
     if (mode === 'practice') {
-      fetch('/api/practice/subreddits')
+      apiFetch('/api/practice/subreddits')
         .then((res) => res.json())
         .then((data) => {
           if (data.subreddits) {
@@ -89,23 +213,40 @@ export const App = () => {
 
   // Load game post URL for sharing (short Reddit link to this game post)
 
+  // Past puzzles open on the archive board, where solves after the day are ranked
+  useEffect(() => {
+    const day = gameState.puzzle?.date.split('T')[0];
+    setLeaderboardBoard(day && day !== new Date().toISOString().split('T')[0] ? 'archive' : 'live');
+    setLeaderboardPage(1);
+  }, [gameState.puzzle?.id, gameState.puzzle?.date]);
+
   // Fetch leaderboard when daily puzzle is solved
   useEffect(() => {
     if (mode === 'daily' && gameState.isSolved && gameState.puzzle?.id) {
       setLeaderboardLoading(true);
-      fetch(`/api/leaderboard/daily?puzzleId=${encodeURIComponent(gameState.puzzle.id)}`)
+      const query: LeaderboardQuery = {
+        puzzleId: gameState.puzzle.id,
+        board: leaderboardBoard,
+        view: leaderboardView,
+        page: String(leaderboardPage),
+        pageSize: String(LEADERBOARD_PAGE_SIZE),
+      };
+      apiFetch(`/api/leaderboard/daily?${new URLSearchParams({ ...query }).toString()}`)
         .then((res) => res.json())
         .then((data) => {
           if (data.type === 'leaderboard') {
             setLeaderboard(data.entries || []);
             setUserRank(data.userRank);
             setTotalPlayers(data.totalPlayers || 0);
+            setIsGuest(data.guest ?? false);
           }
         })
         .catch((err) => console.error('Failed to load leaderboard', err))
         .finally(() => setLeaderboardLoading(false));
     }
-  }, [mode, gameState.isSolved, gameState.puzzle?.id]);
+  }, [mode, gameState.isSolved, gameState.puzzle?.id, leaderboardBoard, leaderboardView, leaderboardPage]);
+
+  const leaderboardPages = Math.max(1, Math.ceil(totalPlayers / LEADERBOARD_PAGE_SIZE));
 
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -167,7 +308,10 @@ export const App = () => {
     );
   }
 
-  const { puzzle, userMappings, selectedCipher, hintsUsed, hintsRevealed, isSolved, elapsedTime, mistakes } = gameState;
+  const { puzzle, reveal, userMappings, selectedCipher, hintsUsed, hintsRevealed, isSolved, elapsedTime, mistakes } = gameState;
+  // Older daily posts keep playing their own day's puzzle
+  const puzzleDay = puzzle?.date.split('T')[0];
+  const isTodaysPuzzle = !puzzleDay || puzzleDay === new Date().toISOString().split('T')[0];
   const usedLetters = new Set(Object.values(userMappings));
 
   // Render cipher text with tiles
@@ -270,17 +414,22 @@ export const App = () => {
     ['Z', 'X', 'C', 'V', 'B', 'N', 'M'],
   ];
 
-  // Cipher key for debug
-  const cipherMap = puzzle ? generateCipherMap(puzzle.seed) : null;
-
-  const redditLink = puzzle ? getRedditPostUrl(puzzle.source) : null;
+  const redditLink = reveal ? getRedditPostUrl(reveal.source) : null;
 
   // Merge current solved puzzle into history for display; dedupe by puzzleId so daily shows once
   const displayHistory = (() => {
     const list = [...playHistory];
-    if (gameState.isSolved && gameState.puzzle && currentScore != null) {
+    const matchesFilter =
+      historyFilter === 'all' || historyFilter === gameState.puzzle?.mode;
+    if (
+      matchesFilter &&
+      gameState.isSolved &&
+      gameState.puzzle &&
+      gameState.reveal &&
+      currentScore != null
+    ) {
       if (!list.some((e) => e.puzzleId === gameState.puzzle!.id)) {
-        const src = gameState.puzzle.source;
+        const src = gameState.reveal.source;
         const postLink = getRedditPostUrl(src);
         list.unshift({
           puzzleId: gameState.puzzle.id,
@@ -307,6 +456,12 @@ export const App = () => {
 
   return (
     <div className="min-h-screen bg-gradient-to-b from-zinc-950 via-zinc-900 to-zinc-950 text-white p-2 sm:p-4 overflow-x-hidden">
+      {/* Transient notice (e.g. rate limited) */}
+      {notice && (
+        <div className="fixed top-2 left-1/2 -translate-x-1/2 z-50 bg-amber-600/90 text-white text-xs sm:text-sm font-semibold px-4 py-2 rounded-lg shadow-lg">
+          ⏳ {notice}
+        </div>
+      )}
       <div className="max-w-2xl mx-auto w-full">
         {/* Header */}
         <div className="flex items-center justify-between mb-2 gap-2">
@@ -328,32 +483,18 @@ export const App = () => {
           <div className="flex items-center gap-1 flex-shrink-0">
             <button
               type="button"
-              onClick={async () => {
-                setShowHistory(true);
-                setHistoryLoading(true);
-                try {
-                  const res = await fetch('/api/score/history');
-                  const data = await res.json();
-                  setPlayHistory(data.history ?? []);
-                } catch (e) {
-                  setPlayHistory([]);
-                } finally {
-                  setHistoryLoading(false);
-                }
-              }}
+              onClick={() => void openArchive()}
+              className="px-2 sm:px-3 py-1 bg-zinc-800 rounded text-xs text-zinc-400 hover:bg-zinc-700"
+            >
+              📅 Archive
+            </button>
+            <button
+              type="button"
+              onClick={openHistory}
               className="px-2 sm:px-3 py-1 bg-zinc-800 rounded text-xs text-zinc-400 hover:bg-zinc-700"
             >
               📊 History
             </button>
-            {mode === 'practice' && (
-              <button
-                type="button"
-                onClick={() => setShowKey(!showKey)}
-                className="px-2 sm:px-3 py-1 bg-zinc-800 rounded text-xs text-zinc-400 hover:bg-zinc-700"
-              >
-                {showKey ? 'Hide' : 'Show'} Key
-              </button>
-            )}
           </div>
         </div>
 
@@ -364,6 +505,7 @@ export const App = () => {
               onClick={async () => {
                 await saveProgress?.();
                 setMode('daily');
+                setArchiveDate(null);
                 setSelectedSubreddit('');
                 setCustomSubreddit('');
                 setAppliedCustomSubreddit('');
@@ -396,11 +538,7 @@ export const App = () => {
                 type="button"
                 onClick={async () => {
                   await saveProgress?.();
-                  setShowHistory(true);
-                  setHistoryLoading(false);
-                  const res = await fetch('/api/score/history');
-                  const data = await res.json().catch(() => ({ history: [] }));
-                  setPlayHistory(data.history ?? []);
+                  openHistory();
                 }}
                 className="px-3 sm:px-4 py-2 rounded-lg font-semibold bg-amber-600 hover:bg-amber-500 text-white text-sm sm:text-base"
                 title="Save progress and find this puzzle in History to resume later"
@@ -418,6 +556,24 @@ export const App = () => {
             )}
           </div>
           
+          {/* Past daily (archive or an older post): solves are ranked on the archive board */}
+          {mode === 'daily' && !isTodaysPuzzle && (
+            <div className="flex flex-wrap items-center gap-2 text-xs text-zinc-400">
+              <span>
+                📅 Puzzle from {puzzleDay} · late solves go on its archive leaderboard
+              </span>
+              {archiveDate && (
+                <button
+                  type="button"
+                  onClick={() => void playArchiveDate(null)}
+                  className="px-2 py-1 bg-zinc-800 hover:bg-zinc-700 rounded text-zinc-300"
+                >
+                  Back to today
+                </button>
+              )}
+            </div>
+          )}
+
           {/* Filter: Trending or by subreddit (dropdown + custom) for practice */}
           {mode === 'practice' && (
             <div className="flex flex-wrap items-center gap-2">
@@ -482,28 +638,65 @@ export const App = () => {
         {/* Source info */}
         <div className="bg-zinc-800/50 rounded-lg p-2 sm:p-3 mb-4 border border-zinc-700">
           <div className="flex items-center gap-1 sm:gap-2 text-xs sm:text-sm flex-wrap">
-            <span className="text-orange-400 font-bold">{puzzle.source.subreddit}</span>
+            <span className="text-orange-400 font-bold">{puzzle.meta.subreddit}</span>
             <span className="text-zinc-600">•</span>
-            <span className="text-zinc-400 truncate">{puzzle.source.author}</span>
+            <span className="text-zinc-400 truncate">{puzzle.meta.author}</span>
             <span className="text-zinc-600">•</span>
-            <span className="text-emerald-400">⬆ {puzzle.source.upvotes.toLocaleString()}</span>
+            <span className="text-emerald-400">⬆ {puzzle.meta.upvotes.toLocaleString()}</span>
           </div>
         </div>
 
-        {/* Cipher Key (Debug) */}
-        {showKey && cipherMap && (
-          <div className="bg-zinc-900 rounded-lg p-3 mb-4 border border-yellow-600/50">
-            <p className="text-xs text-yellow-500 mb-2 font-bold">🔑 CIPHER KEY (Debug Mode)</p>
-            <div className="flex flex-wrap gap-1 text-xs font-mono">
-              {Object.entries(cipherMap.encode).map(([plain, cipher]) => (
-                <div key={plain} className="bg-zinc-800 px-2 py-1 rounded">
-                  <span className="text-zinc-500">{cipher}</span>
-                  <span className="text-zinc-600 mx-1">→</span>
-                  <span className="text-emerald-400">{plain}</span>
-                </div>
-              ))}
+        {/* Archive Modal: past dailies with the player's result */}
+        {showArchive && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+            <div className="bg-zinc-900 rounded-xl border border-zinc-700 max-w-lg w-full max-h-[85vh] overflow-hidden flex flex-col">
+              <div className="p-4 border-b border-zinc-700 flex justify-between items-center">
+                <h2 className="text-lg font-bold text-white">Puzzle Archive</h2>
+                <button
+                  type="button"
+                  onClick={() => setShowArchive(false)}
+                  className="text-zinc-400 hover:text-white"
+                >
+                  ✕
+                </button>
+              </div>
+              <div className="p-4 overflow-y-auto flex-1">
+                {archiveLoading ? (
+                  <p className="text-zinc-400 text-sm">Loading...</p>
+                ) : archiveDays.length === 0 ? (
+                  <p className="text-zinc-400 text-sm">No past puzzles yet. Check back tomorrow!</p>
+                ) : (
+                  <>
+                    <p className="text-zinc-400 text-xs mb-3">
+                      {archiveDays.filter((day) => day.status === 'solved').length} of {archiveDays.length} past puzzles solved · Late solves are ranked on a separate archive leaderboard
+                    </p>
+                    <ul className="space-y-2">
+                      {archiveDays.map((day) => (
+                        <li
+                          key={day.date}
+                          className="bg-zinc-800/80 rounded-lg p-3 border border-zinc-700 flex justify-between items-center gap-2"
+                        >
+                          <div className="min-w-0 text-left">
+                            <span className="text-orange-400 font-semibold text-xs">#{day.puzzleNumber}</span>
+                            <span className="text-zinc-300 text-sm ml-2">{day.date}</span>
+                            <span className={`ml-2 text-xs ${ARCHIVE_STATUS[day.status].className}`}>
+                              {ARCHIVE_STATUS[day.status].label}
+                            </span>
+                          </div>
+                          <button
+                            type="button"
+                            onClick={() => void playArchiveDate(day.date)}
+                            className="px-2 py-1 bg-orange-500 hover:bg-orange-400 rounded text-xs font-medium text-white flex-shrink-0"
+                          >
+                            {day.status === 'solved' ? 'View' : day.status === 'in-progress' ? 'Resume' : 'Play'}
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </>
+                )}
+              </div>
             </div>
-            <p className="text-xs text-zinc-500 mt-2">Original: "{puzzle.plainText}"</p>
           </div>
         )}
 
@@ -522,7 +715,7 @@ export const App = () => {
                           message: 'Clear all play history? This cannot be undone.',
                           onConfirm: async () => {
                             try {
-                              const res = await fetch('/api/history/clear', { method: 'POST' });
+                              const res = await apiFetch('/api/history/clear', { method: 'POST' });
                               if (res.ok) {
                                 setPlayHistory([]);
                               }
@@ -547,15 +740,34 @@ export const App = () => {
                   </button>
                 </div>
               </div>
+              <div className="px-4 pt-3 flex gap-1 flex-wrap">
+                {HISTORY_FILTERS.map(({ id, label }) => (
+                  <button
+                    key={id}
+                    type="button"
+                    onClick={() => {
+                      setHistoryFilter(id);
+                      void loadHistory(id);
+                    }}
+                    className={`px-2 py-1 rounded text-xs font-medium ${
+                      historyFilter === id
+                        ? 'bg-orange-500 text-white'
+                        : 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
               <div className="p-4 overflow-y-auto flex-1">
-                {historyLoading ? (
+                {historyLoading && displayHistory.length === 0 ? (
                   <p className="text-zinc-400 text-sm">Loading...</p>
                 ) : displayHistory.length === 0 ? (
                   <p className="text-zinc-400 text-sm">No puzzles yet. Solve one or pause and save to see it here!</p>
                 ) : (
                   <>
                     <p className="text-zinc-400 text-xs mb-3">
-                      {displayHistory.length} puzzle{displayHistory.length !== 1 ? 's' : ''} in history
+                      {displayHistory.length}{historyCursor ? '+' : ''} puzzle{displayHistory.length !== 1 ? 's' : ''} in history
                       {displayHistory.filter((e) => e.score > 0).length > 0 && (
                         <> · Avg score: {Math.round(displayHistory.filter((e) => e.score > 0).reduce((a, e) => a + e.score, 0) / displayHistory.filter((e) => e.score > 0).length).toLocaleString()}</>
                       )}
@@ -610,12 +822,9 @@ export const App = () => {
                               {/* Only show View Post for solved puzzles (not in-progress) to prevent spoilers */}
                               {/* Only show if we have valid source data - postLink must contain /comments/ to be a real post link */}
                               {!entry.isInProgress && (() => {
-                                // Use savedPuzzle source if available, otherwise check if postLink is a valid post URL
-                                const entryUrl = entry.savedPuzzle 
-                                  ? getRedditPostUrl(entry.savedPuzzle.source)
-                                  : (entry.postLink && entry.postLink.includes('/comments/')) 
-                                    ? entry.postLink 
-                                    : null;
+                                const entryUrl = (entry.postLink && entry.postLink.includes('/comments/'))
+                                  ? entry.postLink
+                                  : null;
                                 return entryUrl ? (
                                   <button
                                     type="button"
@@ -635,7 +844,7 @@ export const App = () => {
                                     message: 'Remove this entry from history?',
                                     onConfirm: async () => {
                                       try {
-                                        const res = await fetch('/api/history/delete', {
+                                        const res = await apiFetch('/api/history/delete', {
                                           method: 'POST',
                                           headers: { 'Content-Type': 'application/json' },
                                           body: JSON.stringify({ puzzleId: puzzleIdToDelete }),
@@ -660,9 +869,72 @@ export const App = () => {
                         </li>
                       ))}
                     </ul>
+                    {historyCursor && (
+                      <button
+                        type="button"
+                        disabled={historyLoading}
+                        onClick={() => void loadHistory(historyFilter, historyCursor)}
+                        className="mt-3 w-full py-2 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 rounded-lg text-xs font-medium text-zinc-300"
+                      >
+                        {historyLoading ? 'Loading...' : 'Load more'}
+                      </button>
+                    )}
                   </>
                 )}
               </div>
+              {/* Personal data: export and full deletion (see Privacy Policy) */}
+              <div className="p-3 border-t border-zinc-700">
+                {dataNotice && <p className="text-zinc-400 text-xs mb-2">{dataNotice}</p>}
+                {isGuest ? (
+                  <p className="text-amber-400 text-xs">
+                    Playing as a guest: history is kept for 7 days on this device.{' '}
+                    <button
+                      type="button"
+                      onClick={() => navigateTo('https://www.reddit.com/login')}
+                      className="underline hover:text-amber-300"
+                    >
+                      Log in
+                    </button>{' '}
+                    to keep it, rank on leaderboards and keep your streak.
+                  </p>
+                ) : (
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => void exportMyData()}
+                      className="flex-1 px-2 py-1.5 bg-zinc-800 hover:bg-zinc-700 rounded text-xs font-medium text-zinc-300"
+                    >
+                      Export My Data
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setConfirmDialog({
+                          message:
+                            'Delete all your data? This removes your history, scores, leaderboard places and replays. This cannot be undone.',
+                          onConfirm: async () => {
+                            try {
+                              const res = await apiFetch('/api/me/delete', { method: 'POST' });
+                              const body = await res.json();
+                              if (!res.ok) throw new Error(body.message || `Delete failed: ${res.status}`);
+                              setPlayHistory([]);
+                              setHistoryCursor(null);
+                              setDataNotice('Your data has been deleted.');
+                            } catch (err) {
+                              console.error('Failed to delete data:', err);
+                              setDataNotice(err instanceof Error ? err.message : 'Failed to delete data');
+                            }
+                            setConfirmDialog(null);
+                          },
+                        });
+                      }}
+                      className="flex-1 px-2 py-1.5 bg-zinc-800 hover:bg-red-600 rounded text-xs font-medium text-zinc-400 hover:text-white"
+                    >
+                      Delete My Data
+                    </button>
+                  </div>
+                )}
+              </div>
             </div>
           </div>
         )}
@@ -673,8 +945,10 @@ export const App = () => {
             <div className="bg-gradient-to-r from-emerald-900/30 to-blue-900/30 rounded-xl p-4 sm:p-6 md:p-8 border border-emerald-500/50 text-center max-w-md w-full mx-4 max-h-[90vh] overflow-y-auto">
               <div className="text-4xl sm:text-5xl mb-2">🎉</div>
               <h2 className="text-xl sm:text-2xl font-black text-emerald-400 mb-2">SOLVED!</h2>
-              <p className="text-sm text-zinc-400 mb-1">{mode === 'practice' ? 'Congratulations! You solved the puzzle.' : 'Congratulations! You solved today\'s puzzle.'}</p>
-              <p className="text-sm sm:text-base text-zinc-300 italic mb-4 break-words">"{puzzle.plainText}"</p>
+              <p className="text-sm text-zinc-400 mb-1">{mode === 'practice' ? 'Congratulations! You solved the puzzle.' : isTodaysPuzzle ? 'Congratulations! You solved today\'s puzzle.' : `Congratulations! You solved the ${puzzleDay} puzzle.`}</p>
+              {reveal && (
+                <p className="text-sm sm:text-base text-zinc-300 italic mb-4 break-words">"{reveal.plainText}"</p>
+              )}
               
               {/* Stats Grid */}
               <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 sm:gap-4 mb-4">
@@ -704,13 +978,47 @@ export const App = () => {
               {mode === 'daily' && (
                 <div className="mt-4 mb-2">
                   <h3 className="text-sm font-bold text-zinc-400 mb-2 flex items-center justify-center gap-2">
-                    <span>🏆</span> TODAY'S LEADERBOARD
+                    <span>🏆</span> {isTodaysPuzzle ? "TODAY'S LEADERBOARD" : `${leaderboardBoard === 'archive' ? 'ARCHIVE ' : ''}LEADERBOARD · ${puzzleDay}`}
                     {userRank && totalPlayers > 0 && (
                       <span className="text-emerald-400 font-normal">
                         (You: #{userRank} of {totalPlayers})
                       </span>
                     )}
                   </h3>
+                  {isGuest && (
+                    <p className="text-amber-400 text-xs mb-2">
+                      Playing as a guest, so this score isn't ranked.{' '}
+                      <button
+                        type="button"
+                        onClick={() => navigateTo('https://www.reddit.com/login')}
+                        className="underline hover:text-amber-300"
+                      >
+                        Log in
+                      </button>{' '}
+                      to join the leaderboard and keep your streak.
+                    </p>
+                  )}
+                  {!isTodaysPuzzle && (
+                    <div className="flex justify-center gap-1 mb-2 text-xs">
+                      {(['live', 'archive'] as const).map((board) => (
+                        <button
+                          key={board}
+                          type="button"
+                          onClick={() => {
+                            setLeaderboardBoard(board);
+                            setLeaderboardPage(1);
+                          }}
+                          className={`px-2 py-1 rounded ${
+                            leaderboardBoard === board
+                              ? 'bg-orange-500 text-white'
+                              : 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700'
+                          }`}
+                        >
+                          {board === 'live' ? 'On the day' : 'Archive'}
+                        </button>
+                      ))}
+                    </div>
+                  )}
                   {leaderboardLoading ? (
                     <div className="text-zinc-500 text-sm py-2">Loading...</div>
                   ) : leaderboard.length > 0 ? (
@@ -722,6 +1030,7 @@ export const App = () => {
                             <th className="py-1 px-2 text-left">Player</th>
                             <th className="py-1 px-2 text-right">Score</th>
                             <th className="py-1 px-2 text-right">Time</th>
+                            <th className="py-1 px-2 text-right" aria-label="Replay"></th>
                           </tr>
                         </thead>
                         <tbody>
@@ -744,6 +1053,16 @@ export const App = () => {
                               <td className="py-1.5 px-2 text-right font-mono text-zinc-400">
                                 {formatTime(entry.time)}
                               </td>
+                              <td className="py-1.5 px-2 text-right">
+                                <button
+                                  type="button"
+                                  onClick={() => setReplayUser(entry.username)}
+                                  className="text-zinc-400 hover:text-white"
+                                  title={`Watch ${entry.username}'s solve`}
+                                >
+                                  ▶
+                                </button>
+                              </td>
                             </tr>
                           ))}
                         </tbody>
@@ -752,6 +1071,44 @@ export const App = () => {
                   ) : (
                     <div className="text-zinc-500 text-sm py-2">Be the first to set a score!</div>
                   )}
+                  {totalPlayers > LEADERBOARD_PAGE_SIZE && (
+                    <div className="flex items-center justify-between gap-2 mt-2 text-xs">
+                      <button
+                        type="button"
+                        disabled={!userRank}
+                        onClick={() => {
+                          setLeaderboardView((v) => (v === 'around' ? 'page' : 'around'));
+                          setLeaderboardPage(1);
+                        }}
+                        className="px-2 py-1 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 rounded text-zinc-300"
+                      >
+                        {leaderboardView === 'around' ? 'Top players' : 'Around me'}
+                      </button>
+                      {leaderboardView === 'page' && (
+                        <div className="flex items-center gap-2 text-zinc-400">
+                          <button
+                            type="button"
+                            disabled={leaderboardPage <= 1}
+                            onClick={() => setLeaderboardPage((p) => p - 1)}
+                            className="px-2 py-1 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 rounded"
+                          >
+                            ‹
+                          </button>
+                          <span>
+                            {leaderboardPage} / {leaderboardPages}
+                          </span>
+                          <button
+                            type="button"
+                            disabled={leaderboardPage >= leaderboardPages}
+                            onClick={() => setLeaderboardPage((p) => p + 1)}
+                            className="px-2 py-1 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 rounded"
+                          >
+                            ›
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  )}
                 </div>
               )}
               
@@ -883,17 +1240,17 @@ export const App = () => {
           <div className="flex justify-between items-center mb-4 px-1 sm:px-2 gap-1 sm:gap-2">
             <button
               onClick={useHint}
-              disabled={hintsUsed >= 3}
+              disabled={hintsUsed >= MAX_HINTS}
               className={`
                 px-2 sm:px-4 py-2 rounded-lg font-semibold flex items-center gap-1 sm:gap-2 text-xs sm:text-sm
                 ${
-                  hintsUsed < 3
+                  hintsUsed < MAX_HINTS
                     ? 'bg-blue-600/20 text-blue-400 border border-blue-500/50 hover:bg-blue-600/30'
                     : 'bg-zinc-800 text-zinc-600 cursor-not-allowed'
                 }
               `}
             >
-              💡 <span className="hidden sm:inline">Hint</span> <span className="bg-blue-600/30 px-1 sm:px-2 py-0.5 rounded text-xs">{3 - hintsUsed}</span>
+              💡 <span className="hidden sm:inline">Hint</span> <span className="bg-blue-600/30 px-1 sm:px-2 py-0.5 rounded text-xs">{MAX_HINTS - hintsUsed}</span>
             </button>
 
             <div className="text-xs sm:text-sm text-zinc-500 text-center flex-1 min-w-0 px-1">
@@ -995,6 +1352,11 @@ export const App = () => {
         </div>
       )}
 
+      {/* Solve replay (from a leaderboard row) */}
+      {replayUser && (
+        <ReplayViewer puzzleId={puzzle.id} username={replayUser} onClose={() => setReplayUser(null)} />
+      )}
+
       {/* Privacy Policy modal */}
       {showPrivacy && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
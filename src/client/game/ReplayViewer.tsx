@@ -0,0 +1,161 @@
+// Replay viewer - animates a player's solve from their recorded mapping timeline
+
+import { useEffect, useMemo, useState } from 'react';
+import type { ErrorResponse, GetReplayResponse } from '../../shared/types/api';
+import { formatTime } from '../../shared/types/puzzle';
+import { applyReplayEvent, decodeReplay, type ReplayEvent } from '../../shared/cryptogram/replay';
+import { apiFetch } from '../api';
+
+interface ReplayViewerProps {
+  puzzleId: string;
+  username: string;
+  onClose: () => void;
+}
+
+/** Playback clock resolution */
+const TICK_MS = 100;
+const SPEEDS = [1, 4, 16];
+
+export const ReplayViewer = ({ puzzleId, username, onClose }: ReplayViewerProps) => {
+  const [cipherText, setCipherText] = useState('');
+  const [events, setEvents] = useState<ReplayEvent[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [position, setPosition] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(SPEEDS[1] ?? 1);
+
+  useEffect(() => {
+    const params = new URLSearchParams({ puzzleId, username });
+    apiFetch(`/api/replay?${params.toString()}`)
+      .then(async (res) => {
+        if (!res.ok) {
+          const err: ErrorResponse = await res.json();
+          throw new Error(err.message);
+        }
+        const data: GetReplayResponse = await res.json();
+        const decoded = decodeReplay(data.replay);
+        if (!decoded) throw new Error('Replay data is damaged');
+        setCipherText(data.cipherText);
+        setEvents(decoded);
+        setPosition(0);
+        setPlaying(true);
+      })
+      .catch((err) => {
+        console.error('Failed to load replay', err);
+        setError(err instanceof Error ? err.message : 'Failed to load replay');
+      })
+      .finally(() => setLoading(false));
+  }, [puzzleId, username]);
+
+  const duration = events.length > 0 ? (events[events.length - 1]?.t ?? 0) : 0;
+
+  // Advance the playback clock
+  useEffect(() => {
+    if (!playing) return;
+    const interval = setInterval(() => {
+      setPosition((prev) => Math.min(prev + TICK_MS * speed, duration));
+    }, TICK_MS);
+    return () => clearInterval(interval);
+  }, [playing, speed, duration]);
+
+  // Stop at the end of the timeline
+  useEffect(() => {
+    if (playing && position >= duration) setPlaying(false);
+  }, [playing, position, duration]);
+
+  // Board state at the current playback position
+  const { mappings, hints, lastCipher } = useMemo(() => {
+    const hintSet = new Set<string>();
+    let current: Record<string, string> = {};
+    let last: string | null = null;
+    for (const event of events) {
+      if (event.t > position) break;
+      current = applyReplayEvent(current, hintSet, event);
+      last = event.type === 'clear' ? null : event.cipher;
+    }
+    return { mappings: current, hints: hintSet, lastCipher: last };
+  }, [events, position]);
+
+  const restart = () => {
+    setPosition(0);
+    setPlaying(true);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+      <div className="bg-zinc-900 rounded-xl border border-zinc-700 max-w-lg w-full max-h-[85vh] overflow-hidden flex flex-col">
+        <div className="p-4 border-b border-zinc-700 flex justify-between items-center">
+          <h2 className="text-lg font-bold text-white">▶ Replay: u/{username}</h2>
+          <button type="button" onClick={onClose} className="text-zinc-400 hover:text-white">✕</button>
+        </div>
+        <div className="p-4 overflow-y-auto flex-1">
+          {loading ? (
+            <div className="text-zinc-500 text-sm py-2 text-center">Loading replay...</div>
+          ) : error ? (
+            <div className="text-zinc-400 text-sm py-2 text-center">{error}</div>
+          ) : (
+            <>
+              <div className="flex flex-wrap justify-center gap-x-3 gap-y-2 mb-4">
+                {cipherText.split(' ').map((word, wi) => (
+                  <div key={wi} className="flex gap-0.5">
+                    {word.split('').map((char, ci) => {
+                      if (!/[A-Z]/.test(char)) {
+                        return (
+                          <div key={ci} className="w-3 h-9 flex items-center justify-center text-zinc-500 text-sm font-bold">
+                            {char}
+                          </div>
+                        );
+                      }
+                      const guess = mappings[char];
+                      const isHint = hints.has(char);
+                      return (
+                        <div
+                          key={ci}
+                          className={`w-5 h-9 sm:w-6 sm:h-10 flex flex-col items-center justify-center rounded-md border-2 transition-all duration-150 ${
+                            char === lastCipher
+                              ? 'bg-orange-500/40 border-orange-400'
+                              : isHint
+                                ? 'bg-blue-600/30 border-blue-500'
+                                : 'bg-zinc-800 border-zinc-700'
+                          }`}
+                        >
+                          <span className="text-[10px] font-mono font-bold text-zinc-400">{char}</span>
+                          <span className={`text-[10px] sm:text-xs font-bold ${isHint ? 'text-blue-400' : 'text-white'}`}>
+                            {guess || '_'}
+                          </span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex items-center justify-between gap-2 text-sm">
+                <span className="font-mono text-zinc-400">
+                  {formatTime(Math.floor(position / 1000))} / {formatTime(Math.floor(duration / 1000))}
+                </span>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => (position >= duration ? restart() : setPlaying((p) => !p))}
+                    className="px-3 py-1 bg-zinc-700 hover:bg-zinc-600 rounded-lg font-semibold"
+                  >
+                    {playing ? '⏸ Pause' : position >= duration ? '↺ Replay' : '▶ Play'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setSpeed(SPEEDS[(SPEEDS.indexOf(speed) + 1) % SPEEDS.length] ?? 1)}
+                    className="px-3 py-1 bg-zinc-700 hover:bg-zinc-600 rounded-lg font-semibold font-mono"
+                  >
+                    {speed}×
+                  </button>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
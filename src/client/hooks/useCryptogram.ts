@@ -2,7 +2,6 @@
 
 import { useCallback, useEffect, useRef, useState } from 'react';
 import type {
-  Puzzle,
   GameState,
   Score,
 } from '../../shared/types/puzzle';
@@ -10,21 +9,42 @@ import type {
   GetDailyPuzzleResponse,
   GetPracticePuzzleResponse,
   ValidatePuzzleResponse,
+  SubmitGuessResponse,
+  GetHintResponse,
   SubmitScoreResponse,
+  ResumePuzzleResponse,
   PlayHistoryEntry,
+  ErrorResponse,
 } from '../../shared/types/api';
-import { generateCipherMap } from '../../shared/cryptogram/engine';
-import { calculateScore } from '../../shared/types/puzzle';
-import { getRedditPostUrl } from '../../shared/reddit-link';
+import { calculateScore, MAX_HINTS } from '../../shared/types/puzzle';
+import { apiFetch } from '../api';
 
 interface UseCryptogramOptions {
   mode: 'daily' | 'practice';
   subreddit?: string;
+  /** Past daily to play from the archive (YYYY-MM-DD); daily mode only */
+  archiveDate?: string;
 }
 
+/** How long a transient notice (e.g. rate limiting) stays on screen */
+const NOTICE_DURATION_MS = 4000;
+
+/**
+ * Parse a 429 response body; returns null if the request was not rate limited
+ */
+const getRateLimit = async (res: Response): Promise<ErrorResponse | null> => {
+  if (res.status !== 429) return null;
+  try {
+    return (await res.json()) as ErrorResponse;
+  } catch {
+    return { status: 'error', code: 'rate_limited', message: 'Too many requests, please slow down' };
+  }
+};
+
 export const useCryptogram = (options: UseCryptogramOptions) => {
   const [gameState, setGameState] = useState<GameState>({
     puzzle: null,
+    reveal: null,
     userMappings: {},
     selectedCipher: null,
     hintsUsed: 0,
@@ -37,6 +57,11 @@ export const useCryptogram = (options: UseCryptogramOptions) => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [score, setScore] = useState<Score | null>(null);
+  /** Transient message for recoverable problems (shown without leaving the puzzle) */
+  const [notice, setNotice] = useState<string | null>(null);
+  /** Bumped to re-run validation after a rate-limited validate or score submit */
+  const [retryTick, setRetryTick] = useState(0);
+  const noticeTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   /** Ensures each "New Puzzle" request gets a unique seed so the server picks a different post */
   const practiceSeedRef = useRef(0);
   /** When true, skip the next effect-driven load (e.g. after resuming from history) */
@@ -44,6 +69,21 @@ export const useCryptogram = (options: UseCryptogramOptions) => {
   /** Prevent submitting score more than once per puzzle (validate can fire multiple times) */
   const submittedPuzzleIdsRef = useRef<Set<string>>(new Set());
 
+  const showNotice = useCallback((message: string) => {
+    setNotice(message);
+    if (noticeTimerRef.current) clearTimeout(noticeTimerRef.current);
+    noticeTimerRef.current = setTimeout(() => setNotice(null), NOTICE_DURATION_MS);
+  }, []);
+
+  /** Show the rate-limit message and re-validate once the server allows it again */
+  const handleRateLimited = useCallback(
+    (limited: ErrorResponse) => {
+      showNotice(limited.message);
+      setTimeout(() => setRetryTick((t) => t + 1), (limited.retryAfter ?? 1) * 1000);
+    },
+    [showNotice]
+  );
+
   // Load puzzle
   useEffect(() => {
     if (skipNextLoadRef.current) {
@@ -56,6 +96,9 @@ export const useCryptogram = (options: UseCryptogramOptions) => {
       setScore(null);
       try {
         let endpoint = options.mode === 'daily' ? '/api/puzzle/daily' : '/api/puzzle/practice';
+        if (options.mode === 'daily' && options.archiveDate) {
+          endpoint = `/api/puzzle/archive?date=${encodeURIComponent(options.archiveDate)}`;
+        }
         if (options.mode === 'practice') {
           const params = new URLSearchParams();
           if (options.subreddit) params.set('subreddit', options.subreddit);
@@ -63,7 +106,9 @@ export const useCryptogram = (options: UseCryptogramOptions) => {
           params.set('seed', String(practiceSeedRef.current));
           endpoint += `?${params.toString()}`;
         }
-        const res = await fetch(endpoint);
+        const res = await apiFetch(endpoint);
+        const limited = await getRateLimit(res);
+        if (limited) throw new Error(limited.message);
         if (!res.ok) throw new Error(`HTTP ${res.status}`);
 
         const data: GetDailyPuzzleResponse | GetPracticePuzzleResponse = await res.json();
@@ -73,17 +118,21 @@ export const useCryptogram = (options: UseCryptogramOptions) => {
         const dailyData = data as GetDailyPuzzleResponse;
         const completed = options.mode === 'daily' && dailyData.completed && dailyData.completedScore;
         const cs = dailyData.completedScore;
+        // Server session may already be running (e.g. reopening an unfinished daily)
+        const progress = options.mode === 'daily' ? dailyData.progress : undefined;
+        const resumedAt = progress?.elapsedTime ?? 0;
 
         setGameState({
           puzzle,
-          userMappings: {}, // will show solved quote in modal
+          reveal: completed && dailyData.reveal ? dailyData.reveal : null,
+          userMappings: progress ? { ...progress.hints } : {}, // will show solved quote in modal
           selectedCipher: null,
-          hintsUsed: completed && cs ? cs.hintsUsed : 0,
-          hintsRevealed: [],
+          hintsUsed: completed && cs ? cs.hintsUsed : (progress?.hintsUsed ?? 0),
+          hintsRevealed: progress ? Object.keys(progress.hints) : [],
           isSolved: !!completed,
-          startTime: Date.now(),
-          elapsedTime: completed && cs ? cs.time : 0,
-          mistakes: completed && cs ? cs.mistakes : 0,
+          startTime: Date.now() - resumedAt * 1000,
+          elapsedTime: completed && cs ? cs.time : resumedAt,
+          mistakes: completed && cs ? cs.mistakes : (progress?.mistakes ?? 0),
         });
         if (completed && cs) setScore(cs);
       } catch (err) {
@@ -95,7 +144,7 @@ export const useCryptogram = (options: UseCryptogramOptions) => {
     };
 
     void loadPuzzle();
-  }, [options.mode, options.subreddit]);
+  }, [options.mode, options.subreddit, options.archiveDate]);
 
   // Timer
   useEffect(() => {
@@ -116,49 +165,52 @@ export const useCryptogram = (options: UseCryptogramOptions) => {
     if (!gameState.puzzle) return;
 
     try {
-      const res = await fetch('/api/puzzle/validate', {
+      const res = await apiFetch('/api/puzzle/validate', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          puzzleId: gameState.puzzle.id,
+          token: gameState.puzzle.token,
           userMappings: gameState.userMappings,
-          ...(gameState.puzzle.id.startsWith('practice-')
-            ? { seed: gameState.puzzle.seed, cipherText: gameState.puzzle.cipherText }
-            : {}),
         }),
       });
 
+      const limited = await getRateLimit(res);
+      if (limited) {
+        handleRateLimited(limited);
+        return;
+      }
       if (!res.ok) throw new Error(`HTTP ${res.status}`);
       const data: ValidatePuzzleResponse = await res.json();
 
       if (data.isSolved) {
-        setGameState((prev) => ({ ...prev, isSolved: true }));
+        setGameState((prev) => ({ ...prev, isSolved: true, reveal: data.reveal ?? prev.reveal }));
 
         if (submittedPuzzleIdsRef.current.has(gameState.puzzle.id)) return;
         submittedPuzzleIdsRef.current.add(gameState.puzzle.id);
 
         // Submit score once per puzzle for both daily and practice (and store for history)
         try {
-          const src = gameState.puzzle.source;
-          const postLink = getRedditPostUrl(src);
-          const scoreRes = await fetch('/api/score/submit', {
+          const scoreRes = await apiFetch('/api/score/submit', {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              puzzleId: gameState.puzzle.id,
-              time: gameState.elapsedTime,
-              hintsUsed: gameState.hintsUsed,
-              mistakes: gameState.mistakes,
-              mode: options.mode,
-              postLink,
-              subreddit: src.subreddit ?? '',
-              title: src.title ?? '',
-            }),
+            body: JSON.stringify({ token: gameState.puzzle.token }),
           });
 
-          if (scoreRes.ok) {
+          const scoreLimited = await getRateLimit(scoreRes);
+          if (scoreLimited) {
+            // Allow the retry to submit again
+            submittedPuzzleIdsRef.current.delete(gameState.puzzle.id);
+            handleRateLimited(scoreLimited);
+          } else if (scoreRes.ok) {
             const scoreData: SubmitScoreResponse = await scoreRes.json();
             setScore(scoreData.score);
+            // Show the server-recorded time and counters rather than the local ones
+            setGameState((prev) => ({
+              ...prev,
+              elapsedTime: scoreData.score.time,
+              hintsUsed: scoreData.score.hintsUsed,
+              mistakes: scoreData.score.mistakes,
+            }));
           }
         } catch (err) {
           console.error('Failed to submit score', err);
@@ -167,14 +219,14 @@ export const useCryptogram = (options: UseCryptogramOptions) => {
     } catch (err) {
       console.error('Failed to validate puzzle', err);
     }
-  }, [gameState.puzzle, gameState.userMappings, gameState.elapsedTime, gameState.hintsUsed, gameState.mistakes, options.mode]);
+  }, [gameState.puzzle, gameState.userMappings, handleRateLimited]);
 
-  // Validate whenever mappings change
+  // Validate whenever mappings change (and again after a rate-limited attempt)
   useEffect(() => {
     if (gameState.puzzle && Object.keys(gameState.userMappings).length > 0) {
       void validatePuzzle();
     }
-  }, [gameState.userMappings, gameState.puzzle, validatePuzzle]);
+  }, [gameState.userMappings, gameState.puzzle, validatePuzzle, retryTick]);
 
   const handleTileClick = useCallback((cipherLetter: string) => {
     if (gameState.isSolved) return;
@@ -211,23 +263,50 @@ export const useCryptogram = (options: UseCryptogramOptions) => {
         newMappings = { ...gameState.userMappings, [selectedCipher]: upperLetter };
       }
 
-      // Check if correct for mistake tracking
-      let mistakeIncrement = 0;
-      if (gameState.puzzle) {
-        const cipherMap = generateCipherMap(gameState.puzzle.seed);
-        if (cipherMap.decode[selectedCipher] !== upperLetter) {
-          mistakeIncrement = 1;
-        }
-      }
-
       setGameState((prev) => ({
         ...prev,
         userMappings: newMappings,
         selectedCipher: null,
-        mistakes: prev.mistakes + mistakeIncrement,
       }));
+
+      // The server checks the guess and counts it if wrong
+      const puzzle = gameState.puzzle;
+      if (!puzzle) return;
+      void (async () => {
+        try {
+          const res = await apiFetch('/api/puzzle/guess', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              token: puzzle.token,
+              cipherLetter: selectedCipher,
+              plainLetter: upperLetter,
+            }),
+          });
+          const limited = await getRateLimit(res);
+          if (limited) {
+            showNotice(limited.message);
+            return;
+          }
+          if (!res.ok) throw new Error(`HTTP ${res.status}`);
+          const data: SubmitGuessResponse = await res.json();
+          if (data.correct === false) {
+            setGameState((prev) =>
+              prev.puzzle?.id === puzzle.id ? { ...prev, mistakes: data.mistakes } : prev
+            );
+          }
+        } catch (err) {
+          console.error('Failed to check guess', err);
+        }
+      })();
     },
-    [gameState.isSolved, gameState.selectedCipher, gameState.userMappings, gameState.puzzle]
+    [
+      gameState.isSolved,
+      gameState.selectedCipher,
+      gameState.userMappings,
+      gameState.puzzle,
+      showNotice,
+    ]
   );
 
   const handleLetterClick = useCallback(
@@ -237,10 +316,37 @@ export const useCryptogram = (options: UseCryptogramOptions) => {
     [handleLetterInput]
   );
 
+  // Removals and clears go into the server-side session too, so replays match the board
+  const recordBoardEdit = useCallback(
+    (edit: { action: 'remove'; cipherLetter: string } | { action: 'clear' }) => {
+      const puzzle = gameState.puzzle;
+      if (!puzzle) return;
+      void (async () => {
+        try {
+          const res = await apiFetch('/api/puzzle/guess', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ token: puzzle.token, ...edit }),
+          });
+          const limited = await getRateLimit(res);
+          if (limited) {
+            showNotice(limited.message);
+            return;
+          }
+          if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        } catch (err) {
+          console.error('Failed to record board edit', err);
+        }
+      })();
+    },
+    [gameState.puzzle, showNotice]
+  );
+
   const removeLetterMapping = useCallback(
     (cipherLetter: string) => {
       if (gameState.isSolved) return;
       if (gameState.hintsRevealed.includes(cipherLetter)) return; // Can't remove hints
+      if (!gameState.userMappings[cipherLetter]) return;
 
       const newMappings = { ...gameState.userMappings };
       delete newMappings[cipherLetter];
@@ -250,34 +356,54 @@ export const useCryptogram = (options: UseCryptogramOptions) => {
         userMappings: newMappings,
         selectedCipher: null,
       }));
+      recordBoardEdit({ action: 'remove', cipherLetter });
     },
-    [gameState.isSolved, gameState.hintsRevealed, gameState.userMappings]
+    [gameState.isSolved, gameState.hintsRevealed, gameState.userMappings, recordBoardEdit]
   );
 
-  const useHint = useCallback(() => {
-    if (!gameState.puzzle || gameState.hintsUsed >= 3 || gameState.isSolved) return;
+  const useHint = useCallback(async () => {
+    if (!gameState.puzzle || gameState.hintsUsed >= MAX_HINTS || gameState.isSolved) return;
 
-    const cipherLetters = [
-      ...new Set(gameState.puzzle.cipherText.match(/[A-Z]/g) || []),
-    ];
-    const unrevealed = cipherLetters.filter(
-      (c) => !gameState.hintsRevealed.includes(c) && !gameState.userMappings[c]
-    );
-
-    if (unrevealed.length > 0) {
-      const toReveal = unrevealed[0];
-      // Generate cipher map to get correct mapping
-      const cipherMap = generateCipherMap(gameState.puzzle.seed);
-      const correctLetter = cipherMap.decode[toReveal];
-
-      setGameState((prev) => ({
-        ...prev,
-        hintsRevealed: [...prev.hintsRevealed, toReveal],
-        userMappings: { ...prev.userMappings, [toReveal]: correctLetter },
-        hintsUsed: prev.hintsUsed + 1,
-      }));
+    const puzzle = gameState.puzzle;
+    try {
+      const res = await apiFetch('/api/puzzle/hint', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          token: puzzle.token,
+          exclude: [...gameState.hintsRevealed, ...Object.keys(gameState.userMappings)],
+        }),
+      });
+      const limited = await getRateLimit(res);
+      if (limited) {
+        showNotice(limited.message);
+        return;
+      }
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const data: GetHintResponse = await res.json();
+      const { cipherLetter, plainLetter } = data;
+
+      setGameState((prev) =>
+        prev.puzzle?.id === puzzle.id
+          ? {
+              ...prev,
+              hintsRevealed: [...prev.hintsRevealed, cipherLetter],
+              userMappings: { ...prev.userMappings, [cipherLetter]: plainLetter },
+              hintsUsed: data.hintsUsed,
+            }
+          : prev
+      );
+    } catch (err) {
+      console.error('Failed to get hint', err);
     }
-  }, [gameState.puzzle, gameState.hintsUsed, gameState.hintsRevealed, gameState.userMappings, gameState.isSolved]);
+  }, [
+    gameState.puzzle,
+    gameState.hintsUsed,
+    gameState.hintsRevealed,
+    gameState.userMappings,
+    gameState.isSolved,
+    showNotice,
+  ]);
 
   const clearAll = useCallback(() => {
     const kept: Record<string, string> = {};
@@ -291,11 +417,14 @@ export const useCryptogram = (options: UseCryptogramOptions) => {
       userMappings: kept,
       selectedCipher: null,
     }));
-  }, [gameState.hintsRevealed, gameState.userMappings]);
+    recordBoardEdit({ action: 'clear' });
+  }, [gameState.hintsRevealed, gameState.userMappings, recordBoardEdit]);
 
-  const currentScore = gameState.isSolved
-    ? calculateScore(gameState.elapsedTime, gameState.hintsUsed, gameState.mistakes)
-    : 0;
+  const currentScore = score
+    ? score.score
+    : gameState.isSolved
+      ? calculateScore(gameState.elapsedTime, gameState.hintsUsed, gameState.mistakes)
+      : 0;
 
   const generateShare = useCallback(async (): Promise<string | null> => {
     if (!gameState.puzzle || !gameState.isSolved || options.mode !== 'daily') {
@@ -303,15 +432,10 @@ export const useCryptogram = (options: UseCryptogramOptions) => {
     }
 
     try {
-      const res = await fetch('/api/share/generate', {
+      const res = await apiFetch('/api/share/generate', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          puzzleId: gameState.puzzle.id,
-          time: gameState.elapsedTime,
-          hintsUsed: gameState.hintsUsed,
-          score: currentScore,
-        }),
+        body: JSON.stringify({ puzzleId: gameState.puzzle.id }),
       });
 
       if (!res.ok) throw new Error(`HTTP ${res.status}`);
@@ -321,53 +445,50 @@ export const useCryptogram = (options: UseCryptogramOptions) => {
       console.error('Failed to generate share', err);
       return null;
     }
-  }, [gameState.puzzle, gameState.isSolved, gameState.elapsedTime, gameState.hintsUsed, options.mode, currentScore]);
+  }, [gameState.puzzle, gameState.isSolved, options.mode]);
 
   const saveProgress = useCallback(async () => {
     if (!gameState.puzzle || gameState.isSolved) return;
-    const src = gameState.puzzle.source;
-    const postLink = getRedditPostUrl(src);
     try {
-      await fetch('/api/progress/save', {
+      await apiFetch('/api/progress/save', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          puzzleId: gameState.puzzle.id,
-          puzzle: gameState.puzzle,
+          token: gameState.puzzle.token,
           userMappings: gameState.userMappings,
-          elapsedTime: gameState.elapsedTime,
-          hintsUsed: gameState.hintsUsed,
-          mistakes: gameState.mistakes,
-          mode: options.mode,
-          postLink,
-          subreddit: src.subreddit ?? '',
-          title: src.title ?? '',
         }),
       });
     } catch (err) {
       console.error('Failed to save progress', err);
     }
-  }, [gameState.puzzle, gameState.isSolved, gameState.userMappings, gameState.elapsedTime, gameState.hintsUsed, gameState.mistakes, options.mode]);
+  }, [gameState.puzzle, gameState.isSolved, gameState.userMappings]);
 
   const loadNextPuzzle = useCallback(async () => {
     if (options.mode !== 'practice') return;
     await saveProgress();
     setLoading(true);
     setError(null);
-    setScore(null);
     try {
       const params = new URLSearchParams();
       if (options.subreddit) params.set('subreddit', options.subreddit);
       practiceSeedRef.current += 1;
       params.set('seed', String(practiceSeedRef.current));
-      const res = await fetch(`/api/puzzle/practice?${params.toString()}`);
+      const res = await apiFetch(`/api/puzzle/practice?${params.toString()}`);
+      // Keep the current puzzle on screen when rate limited
+      const limited = await getRateLimit(res);
+      if (limited) {
+        showNotice(limited.message);
+        return;
+      }
       if (!res.ok) throw new Error(`HTTP ${res.status}`);
 
       const data: GetPracticePuzzleResponse = await res.json();
       const puzzle = data.puzzle;
+      setScore(null);
 
       setGameState({
         puzzle,
+        reveal: null,
         userMappings: {},
         selectedCipher: null,
         hintsUsed: 0,
@@ -383,7 +504,7 @@ export const useCryptogram = (options: UseCryptogramOptions) => {
     } finally {
       setLoading(false);
     }
-  }, [options.mode, options.subreddit, saveProgress]);
+  }, [options.mode, options.subreddit, saveProgress, showNotice]);
 
   const loadFromHistoryEntry = useCallback((entry: PlayHistoryEntry) => {
     if (!entry.isInProgress || !entry.savedPuzzle) return;
@@ -391,6 +512,7 @@ export const useCryptogram = (options: UseCryptogramOptions) => {
     const puzzle = entry.savedPuzzle;
     setGameState({
       puzzle,
+      reveal: null,
       userMappings: entry.userMappings ?? {},
       selectedCipher: null,
       hintsUsed: entry.hintsUsed ?? 0,
@@ -401,12 +523,41 @@ export const useCryptogram = (options: UseCryptogramOptions) => {
       mistakes: entry.mistakes ?? 0,
     });
     setScore(null);
+
+    // Restart the server-side clock and sync the timer, hints and counters to it
+    void (async () => {
+      try {
+        const res = await apiFetch('/api/puzzle/resume', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ token: puzzle.token }),
+        });
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        const { progress }: ResumePuzzleResponse = await res.json();
+        setGameState((prev) =>
+          prev.puzzle?.id === puzzle.id
+            ? {
+                ...prev,
+                userMappings: { ...prev.userMappings, ...progress.hints },
+                hintsUsed: progress.hintsUsed,
+                hintsRevealed: Object.keys(progress.hints),
+                mistakes: progress.mistakes,
+                startTime: Date.now() - progress.elapsedTime * 1000,
+                elapsedTime: progress.elapsedTime,
+              }
+            : prev
+        );
+      } catch (err) {
+        console.error('Failed to resume puzzle', err);
+      }
+    })();
   }, []);
 
   return {
     gameState,
     loading,
     error,
+    notice,
     score,
     currentScore,
     handleTileClick,
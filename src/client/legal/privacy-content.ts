@@ -1,29 +1,43 @@
 /**
  * PostCipher Privacy Policy
- * Last Updated: February 7, 2026
+ * Last Updated: October 19, 2026
  */
 
-export const PRIVACY_LAST_UPDATED = 'February 7, 2026';
+export const PRIVACY_LAST_UPDATED = 'October 19, 2026';
 
 export const PRIVACY_CONTENT = `# PostCipher Privacy Policy
 
-Last Updated: February 7, 2026
+Last Updated: October 19, 2026
 
 ## Data Collection
 PostCipher collects minimal data to provide game functionality:
-- Puzzle completion statistics (attempts, solve time)
+- Play history (puzzles played, scores, solve times, paused puzzles)
+- Daily scores and leaderboard placements
+- Play sessions (hints, mistakes and guess timing, used to time solves and detect cheating)
+- Solve replays for daily puzzles
 - Reddit post IDs for puzzle generation
-- Your Reddit user ID (provided by Reddit's platform)
+- Your Reddit username (provided by Reddit's platform)
 
 ## Data Storage
-- Game data is stored temporarily in Redis
-- No personal identifying information is collected beyond Reddit's standard user IDs
+- Game data is stored in Redis
+- Daily scores, leaderboards and replays are kept for 180 days
+- Paused puzzles are kept for 30 days and finished practice puzzles for 90 days
+- If you play logged out, a random id stored on your device keeps your games apart from other guests; guest history is kept for 7 days and guest scores are never ranked
+- No personal identifying information is collected beyond Reddit's standard usernames
 - No data is sold or shared with third parties
 
+## Your Data
+From Play History you can:
+- Export everything stored about you as a JSON file
+- Delete all of it (history, scores, leaderboard placements, sessions and replays)
+
+Moderator ban records are kept after deletion. Short-lived rate-limit counters expire on their own.
+
 ## Data Usage
 Data is used solely for:
 - Displaying your puzzle progress
 - Generating daily puzzles from Reddit content
+- Leaderboards and fair play
 - Game functionality
 
 ## Reddit API
@@ -0,0 +1,80 @@
+// Server configuration - tunable limits shared by routes and services
+
+export interface RateLimitRule {
+  /** Maximum burst of requests (bucket size) */
+  capacity: number;
+  /** Tokens added back per minute */
+  refillPerMinute: number;
+}
+
+/**
+ * Per-user token buckets, keyed by route name.
+ * Validate and guess fire on every mapping change, so they get generous buckets;
+ * practice loads can trigger Reddit fetches and library rewrites, so they are tight.
+ * Data export/deletion walks every puzzle the player has played, so it is tightest.
+ */
+export const RATE_LIMITS = {
+  'puzzle-daily': { capacity: 20, refillPerMinute: 20 },
+  'puzzle-archive': { capacity: 20, refillPerMinute: 10 },
+  'puzzle-practice': { capacity: 10, refillPerMinute: 6 },
+  'puzzle-validate': { capacity: 60, refillPerMinute: 60 },
+  'puzzle-guess': { capacity: 60, refillPerMinute: 60 },
+  'puzzle-hint': { capacity: 10, refillPerMinute: 10 },
+  'score-submit': { capacity: 10, refillPerMinute: 5 },
+  'me-data': { capacity: 3, refillPerMinute: 1 },
+} satisfies Record<string, RateLimitRule>;
+
+export type RateLimitedRoute = keyof typeof RATE_LIMITS;
+
+/**
+ * Logged-out players choose their own ids, so they share one bucket per route,
+ * this many times the size (and refill) of a player's bucket
+ */
+export const GUEST_RATE_LIMIT_SCALE = 20;
+
+/**
+ * Scoring-anomaly heuristics. Daily scores that trip any of these are held out
+ * of the leaderboard for moderator review.
+ */
+export const ANTI_CHEAT = {
+  /** Fastest plausible solve time per distinct cipher letter the player had to work out */
+  minSecondsPerLetter: 1.5,
+  /** Guess intervals needed before judging input timing */
+  minTimingSamples: 10,
+  /** Interval spread (std dev / mean) below this looks scripted */
+  minIntervalVariation: 0.15,
+};
+
+/** Daily puzzle post selection */
+export const DAILY_POSTS = {
+  /** Days after a post runs as the daily puzzle before it can be picked again */
+  noRepeatWindowDays: 365,
+};
+
+/**
+ * Data retention: how long each kind of stored data is kept. Registered puzzles
+ * are kept permanently; everything else here is pruned by the cleanup job or expires.
+ */
+export const RETENTION = {
+  /**
+   * Daily leaderboards, daily score records and solve replays. Archive boards are
+   * kept this long after their last new score.
+   */
+  dailyLeaderboardDays: 180,
+  /** Flagged scores no moderator has decided on */
+  reviewQueueDays: 30,
+  /** Finished practice puzzles in play history */
+  practiceHistoryDays: 90,
+  /** Paused history entries, which carry the full saved puzzle */
+  inProgressHistoryDays: 30,
+  /** Server-side play sessions (expire on their own) */
+  sessionDays: 30,
+  /** Play history of logged-out players, from their last play */
+  guestHistoryDays: 7,
+  /** Items handled per batch by the cleanup job */
+  batchSize: 100,
+  /** Batches per cleanup run; anything left over is picked up by the next run */
+  maxBatchesPerRun: 20,
+  /** Cleanup run summaries kept for the admin log */
+  logEntries: 30,
+};
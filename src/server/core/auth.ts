@@ -0,0 +1,84 @@
+import type { NextFunction, Request, Response } from 'express';
+import { randomUUID } from 'node:crypto';
+import { context, reddit, settings } from '@devvit/web/server';
+import { GUEST_ID_HEADER, type ErrorResponse } from '../../shared/types/api';
+
+/** Global app setting that turns the /api/test diagnostics off in production */
+const DIAGNOSTICS_SETTING = 'diagnosticsEnabled';
+/** `~` never appears in Reddit usernames, so guest keys can't collide with real players */
+const GUEST_PREFIX = 'guest~';
+const GUEST_ID_PATTERN = /^[A-Za-z0-9-]{16,64}$/;
+
+export interface Player {
+  /** Storage name: the Reddit username, or `guest~<id>` for logged-out players */
+  username: string;
+  isGuest: boolean;
+}
+
+/**
+ * The player behind a request. Logged-out players are told apart by the device-local
+ * id their client sends; without one they get a throwaway id, so nothing persists.
+ */
+export const getPlayer = async (req: Pick<Request, 'header'>): Promise<Player> => {
+  const username = await reddit.getCurrentUsername();
+  if (username) return { username, isGuest: false };
+  const guestId = req.header(GUEST_ID_HEADER);
+  const id = guestId && GUEST_ID_PATTERN.test(guestId) ? guestId : randomUUID();
+  return { username: `${GUEST_PREFIX}${id}`, isGuest: true };
+};
+
+/**
+ * True for storage names created by getPlayer for logged-out players
+ */
+export const isGuestName = (username: string): boolean => username.startsWith(GUEST_PREFIX);
+
+/**
+ * True if `username` moderates the subreddit this app is installed in
+ */
+export const isModerator = async (username: string | undefined): Promise<boolean> => {
+  const { subredditName } = context;
+  if (!username || !subredditName) return false;
+  const moderators = await reddit.getModerators({ subredditName, username }).all();
+  return moderators.some((mod) => mod.username.toLowerCase() === username.toLowerCase());
+};
+
+const forbidden = (res: Response<ErrorResponse>, message: string): void => {
+  res.status(403).json({ status: 'error', code: 'forbidden', message });
+};
+
+/**
+ * Express middleware: only moderators of the install's subreddit may continue
+ */
+export const requireModerator = async (
+  _req: Request,
+  res: Response<ErrorResponse>,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const username = await reddit.getCurrentUsername();
+    if (!(await isModerator(username))) {
+      forbidden(res, 'Moderator access required');
+      return;
+    }
+    next();
+  } catch (error) {
+    console.error('Error checking moderator access:', error);
+    forbidden(res, 'Could not verify moderator access');
+  }
+};
+
+/**
+ * Express middleware: diagnostics routes are only served while the setting allows it
+ */
+export const requireDiagnosticsEnabled = async (
+  _req: Request,
+  res: Response<ErrorResponse>,
+  next: NextFunction
+): Promise<void> => {
+  const enabled = await settings.get<boolean>(DIAGNOSTICS_SETTING);
+  if (enabled === false) {
+    forbidden(res, 'Diagnostics are disabled');
+    return;
+  }
+  next();
+};
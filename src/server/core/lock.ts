@@ -0,0 +1,71 @@
+import { store } from './store';
+
+// Per-key locks for read-modify-write sequences that span several keys.
+// A lock is a key set with NX and an expiry, so a crashed holder can't block
+// writers for longer than the expiry. Waiters retry with jittered backoff.
+
+const LOCK_PREFIX = 'lock:';
+
+export interface LockOptions {
+  /** Expiry, comfortably longer than the critical section */
+  ttlMs?: number;
+  /** Tries before giving up */
+  attempts?: number;
+  /** Wait before the first retry; doubles on each retry */
+  retryDelayMs?: number;
+}
+
+const DEFAULT_LOCK_OPTIONS: Required<LockOptions> = {
+  ttlMs: 10_000,
+  attempts: 8,
+  retryDelayMs: 25,
+};
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Take `name` if it is free. Returns a token for releaseLock, or null if held.
+ */
+export const acquireLock = async (name: string, ttlMs: number): Promise<string | null> => {
+  const token = `${Date.now()}-${Math.random()}`;
+  await store.set(`${LOCK_PREFIX}${name}`, token, {
+    nx: true,
+    expiration: new Date(Date.now() + ttlMs),
+  });
+  return (await store.get(`${LOCK_PREFIX}${name}`)) === token ? token : null;
+};
+
+/**
+ * Release `name` if `token` still holds it (it may have expired and been retaken)
+ */
+export const releaseLock = async (name: string, token: string): Promise<void> => {
+  if ((await store.get(`${LOCK_PREFIX}${name}`)) === token) {
+    await store.del(`${LOCK_PREFIX}${name}`);
+  }
+};
+
+/**
+ * Run `fn` while holding `name`, waiting for other holders first.
+ * Throws if the lock can't be taken within the configured attempts.
+ */
+export const withLock = async <T>(
+  name: string,
+  fn: () => Promise<T>,
+  options: LockOptions = {}
+): Promise<T> => {
+  const { ttlMs, attempts, retryDelayMs } = { ...DEFAULT_LOCK_OPTIONS, ...options };
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    if (attempt > 0) {
+      const backoff = retryDelayMs * 2 ** (attempt - 1);
+      await sleep(backoff / 2 + Math.random() * backoff);
+    }
+    const token = await acquireLock(name, ttlMs);
+    if (!token) continue;
+    try {
+      return await fn();
+    } finally {
+      await releaseLock(name, token);
+    }
+  }
+  throw new Error(`Timed out waiting for lock ${name}`);
+};
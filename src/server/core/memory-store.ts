@@ -0,0 +1,292 @@
+import type { KeyValueStore, SetOptions, ZMember, ZRangeOptions } from './store';
+
+// In-memory KeyValueStore for local runs and tests. Follows Redis (and Devvit) semantics
+// for the operations the app uses: wrong-type errors, empty hashes/sorted sets vanishing,
+// key expiry, score/lex range syntax and the 1000-member default for score/lex ranges.
+
+type Entry =
+  | { type: 'string'; value: string }
+  | { type: 'hash'; value: Map<string, string> }
+  | { type: 'zset'; value: Map<string, number> };
+
+/** Devvit returns at most this many members from a score/lex range without `limit` */
+const DEFAULT_RANGE_COUNT = 1000;
+
+interface Bound<T> {
+  value: T;
+  exclusive: boolean;
+}
+
+const wrongType = () =>
+  new Error('WRONGTYPE Operation against a key holding the wrong kind of value');
+
+function parseInteger(value: string | undefined): number {
+  const parsed = Number(value ?? '0');
+  if (!Number.isInteger(parsed)) throw new Error('ERR value is not an integer or out of range');
+  return parsed;
+}
+
+function parseScoreBound(bound: number | string): Bound<number> {
+  if (typeof bound === 'number') return { value: bound, exclusive: false };
+  const exclusive = bound.startsWith('(');
+  const raw = exclusive ? bound.slice(1) : bound;
+  const value =
+    raw === '+inf' || raw === 'inf' ? Infinity : raw === '-inf' ? -Infinity : Number(raw);
+  if (raw === '' || Number.isNaN(value)) throw new Error('ERR min or max is not a float');
+  return { value, exclusive };
+}
+
+/** '-' and '+' are open ends (null); '[x' is inclusive, '(x' exclusive */
+function parseLexBound(bound: number | string): Bound<string | null> {
+  const raw = String(bound);
+  if (raw === '-' || raw === '+') return { value: null, exclusive: false };
+  if (raw.startsWith('[')) return { value: raw.slice(1), exclusive: false };
+  if (raw.startsWith('(')) return { value: raw.slice(1), exclusive: true };
+  throw new Error('ERR min or max not valid string range item');
+}
+
+function compareMembers(a: ZMember, b: ZMember): number {
+  if (a.score !== b.score) return a.score - b.score;
+  return a.member < b.member ? -1 : a.member > b.member ? 1 : 0;
+}
+
+export class MemoryStore implements KeyValueStore {
+  private entries = new Map<string, Entry>();
+  /** Key -> expiry time (ms since epoch) */
+  private expiries = new Map<string, number>();
+
+  /** Remove every key */
+  clear(): void {
+    this.entries.clear();
+    this.expiries.clear();
+  }
+
+  private read(key: string): Entry | undefined {
+    const expiresAt = this.expiries.get(key);
+    if (expiresAt !== undefined && expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      this.expiries.delete(key);
+    }
+    return this.entries.get(key);
+  }
+
+  private readString(key: string): string | undefined {
+    const entry = this.read(key);
+    if (!entry) return undefined;
+    if (entry.type !== 'string') throw wrongType();
+    return entry.value;
+  }
+
+  private readHash(key: string): Map<string, string> | undefined {
+    const entry = this.read(key);
+    if (!entry) return undefined;
+    if (entry.type !== 'hash') throw wrongType();
+    return entry.value;
+  }
+
+  /** The hash at `key`, created empty if missing */
+  private writeHash(key: string): Map<string, string> {
+    const existing = this.readHash(key);
+    if (existing) return existing;
+    const value = new Map<string, string>();
+    this.entries.set(key, { type: 'hash', value });
+    return value;
+  }
+
+  private readZSet(key: string): Map<string, number> | undefined {
+    const entry = this.read(key);
+    if (!entry) return undefined;
+    if (entry.type !== 'zset') throw wrongType();
+    return entry.value;
+  }
+
+  /** The sorted set at `key`, created empty if missing */
+  private writeZSet(key: string): Map<string, number> {
+    const existing = this.readZSet(key);
+    if (existing) return existing;
+    const value = new Map<string, number>();
+    this.entries.set(key, { type: 'zset', value });
+    return value;
+  }
+
+  /** Redis deletes hashes and sorted sets once they are empty */
+  private dropIfEmpty(key: string, collection: Map<string, unknown>): void {
+    if (collection.size === 0) this.removeKey(key);
+  }
+
+  private removeKey(key: string): void {
+    this.entries.delete(key);
+    this.expiries.delete(key);
+  }
+
+  private sorted(key: string): ZMember[] {
+    const zset = this.readZSet(key);
+    if (!zset) return [];
+    return [...zset].map(([member, score]) => ({ member, score })).sort(compareMembers);
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    return this.readString(key);
+  }
+
+  async set(key: string, value: string, options: SetOptions = {}): Promise<string> {
+    const exists = this.read(key) !== undefined;
+    if ((options.nx && exists) || (options.xx && !exists)) return '';
+    this.entries.set(key, { type: 'string', value });
+    this.expiries.delete(key);
+    if (options.expiration) this.expiries.set(key, options.expiration.getTime());
+    return 'OK';
+  }
+
+  async del(...keys: string[]): Promise<void> {
+    for (const key of keys) this.removeKey(key);
+  }
+
+  async exists(...keys: string[]): Promise<number> {
+    return keys.filter((key) => this.read(key) !== undefined).length;
+  }
+
+  async expire(key: string, seconds: number): Promise<void> {
+    if (!this.read(key)) return;
+    this.expiries.set(key, Date.now() + seconds * 1000);
+  }
+
+  async incrBy(key: string, value: number): Promise<number> {
+    // Unlike set(), incrementing keeps the key's expiry
+    const next = parseInteger(this.readString(key)) + value;
+    this.entries.set(key, { type: 'string', value: String(next) });
+    return next;
+  }
+
+  async hGet(key: string, field: string): Promise<string | undefined> {
+    return this.readHash(key)?.get(field);
+  }
+
+  async hMGet(key: string, fields: string[]): Promise<(string | null)[]> {
+    const hash = this.readHash(key);
+    return fields.map((field) => hash?.get(field) ?? null);
+  }
+
+  async hGetAll(key: string): Promise<Record<string, string>> {
+    return Object.fromEntries(this.readHash(key) ?? []);
+  }
+
+  async hSet(key: string, fieldValues: Record<string, string>): Promise<number> {
+    const hash = this.writeHash(key);
+    let added = 0;
+    for (const [field, value] of Object.entries(fieldValues)) {
+      if (!hash.has(field)) added++;
+      hash.set(field, value);
+    }
+    this.dropIfEmpty(key, hash);
+    return added;
+  }
+
+  async hSetNX(key: string, field: string, value: string): Promise<number> {
+    const hash = this.writeHash(key);
+    if (hash.has(field)) return 0;
+    hash.set(field, value);
+    return 1;
+  }
+
+  async hDel(key: string, fields: string[]): Promise<number> {
+    const hash = this.readHash(key);
+    if (!hash) return 0;
+    const removed = fields.filter((field) => hash.delete(field)).length;
+    this.dropIfEmpty(key, hash);
+    return removed;
+  }
+
+  async hIncrBy(key: string, field: string, value: number): Promise<number> {
+    const hash = this.writeHash(key);
+    const next = parseInteger(hash.get(field)) + value;
+    hash.set(field, String(next));
+    return next;
+  }
+
+  async zAdd(key: string, ...members: ZMember[]): Promise<number> {
+    const zset = this.writeZSet(key);
+    let added = 0;
+    for (const { member, score } of members) {
+      if (!zset.has(member)) added++;
+      zset.set(member, score);
+    }
+    this.dropIfEmpty(key, zset);
+    return added;
+  }
+
+  async zRange(
+    key: string,
+    start: number | string,
+    stop: number | string,
+    options: ZRangeOptions = { by: 'rank' }
+  ): Promise<ZMember[]> {
+    const ascending = this.sorted(key);
+
+    if (options.by === 'rank') {
+      if (options.limit) {
+        throw new Error(
+          `zRange parsing error: 'limit' only allowed when 'options.by' is 'lex' or 'score'`
+        );
+      }
+      const list = options.reverse ? ascending.reverse() : ascending;
+      const toIndex = (i: number) => (i < 0 ? list.length + i : i);
+      const from = Math.max(0, toIndex(Number(start)));
+      const to = Math.min(list.length - 1, toIndex(Number(stop)));
+      return from > to ? [] : list.slice(from, to + 1);
+    }
+
+    // Score and lex ranges take the upper bound first when reversed
+    const [low, high] = options.reverse ? [stop, start] : [start, stop];
+    let matches: ZMember[];
+    if (options.by === 'score') {
+      const min = parseScoreBound(low);
+      const max = parseScoreBound(high);
+      matches = ascending.filter(
+        ({ score }) =>
+          (min.exclusive ? score > min.value : score >= min.value) &&
+          (max.exclusive ? score < max.value : score <= max.value)
+      );
+    } else {
+      const min = parseLexBound(low);
+      const max = parseLexBound(high);
+      matches = ascending.filter(
+        ({ member }) =>
+          (min.value === null || (min.exclusive ? member > min.value : member >= min.value)) &&
+          (max.value === null || (max.exclusive ? member < max.value : member <= max.value))
+      );
+    }
+    if (options.reverse) matches.reverse();
+
+    const { offset, count } = options.limit ?? { offset: 0, count: DEFAULT_RANGE_COUNT };
+    return matches.slice(offset, count < 0 ? undefined : offset + count);
+  }
+
+  async zRank(key: string, member: string): Promise<number | undefined> {
+    const index = this.sorted(key).findIndex((entry) => entry.member === member);
+    return index === -1 ? undefined : index;
+  }
+
+  async zScore(key: string, member: string): Promise<number | undefined> {
+    return this.readZSet(key)?.get(member);
+  }
+
+  async zCard(key: string): Promise<number> {
+    return this.readZSet(key)?.size ?? 0;
+  }
+
+  async zRem(key: string, members: string[]): Promise<number> {
+    const zset = this.readZSet(key);
+    if (!zset) return 0;
+    const removed = members.filter((member) => zset.delete(member)).length;
+    this.dropIfEmpty(key, zset);
+    return removed;
+  }
+
+  async zIncrBy(key: string, member: string, value: number): Promise<number> {
+    const zset = this.writeZSet(key);
+    const next = (zset.get(member) ?? 0) + value;
+    zset.set(member, next);
+    return next;
+  }
+}
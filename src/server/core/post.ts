@@ -1,8 +1,30 @@
 import { reddit } from '@devvit/web/server';
+import { store } from './store';
 
-export const createPost = async () => {
-  const today = new Date().toISOString().split('T')[0];
-  return await reddit.submitCustomPost({
-    title: `🔐 Daily Cryptogram - ${today}`,
+/** Hash of game post id -> id of the puzzle that post plays (or NO_PUZZLE) */
+const POST_PUZZLES_KEY = 'post-puzzles';
+/** Recorded for posts with no date in their title, so the title is only fetched once */
+const NO_PUZZLE = '-';
+
+export const createPost = async (date: Date = new Date()) => {
+  const day = date.toISOString().split('T')[0];
+  const post = await reddit.submitCustomPost({
+    title: `🔐 Daily Cryptogram - ${day}`,
   });
+  await store.hSet(POST_PUZZLES_KEY, { [post.id]: `daily-${day}` });
+  return post;
+};
+
+/**
+ * Id of the puzzle a game post plays. Posts created before bindings were recorded
+ * are bound on first load from the date in their title; undefined if it has none.
+ */
+export const getPostPuzzleId = async (postId: string): Promise<string | undefined> => {
+  const bound = await store.hGet(POST_PUZZLES_KEY, postId);
+  if (bound) return bound === NO_PUZZLE ? undefined : bound;
+
+  const post = await reddit.getPostById(postId as `t3_${string}`);
+  const day = /(\d{4}-\d{2}-\d{2})\s*$/.exec(post.title)?.[1];
+  await store.hSet(POST_PUZZLES_KEY, { [postId]: day ? `daily-${day}` : NO_PUZZLE });
+  return day ? `daily-${day}` : undefined;
 };
@@ -0,0 +1,37 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { RATE_LIMITS } from '../config';
+import { MemoryStore } from './memory-store';
+import { takeToken } from './rate-limit';
+import { setStore } from './store';
+
+describe('takeToken', () => {
+  beforeEach(() => {
+    setStore(new MemoryStore());
+  });
+
+  it('refuses requests once the bucket is empty', async () => {
+    const { capacity } = RATE_LIMITS['me-data'];
+    const waits: number[] = [];
+    for (let i = 0; i <= capacity; i++) waits.push(await takeToken('me-data', 'alice'));
+
+    expect(waits.filter((wait) => wait === 0)).toHaveLength(capacity);
+    expect(waits[capacity]).toBeGreaterThan(0);
+  });
+
+  it('lets no more than the bucket size through a parallel burst', async () => {
+    const { capacity } = RATE_LIMITS['me-data'];
+    const waits = await Promise.all(
+      Array.from({ length: 10 }, () => takeToken('me-data', 'alice'))
+    );
+
+    expect(waits.filter((wait) => wait === 0)).toHaveLength(capacity);
+  });
+
+  it('scales a shared bucket', async () => {
+    const { capacity } = RATE_LIMITS['me-data'];
+    const waits: number[] = [];
+    for (let i = 0; i < capacity * 2; i++) waits.push(await takeToken('me-data', 'guest~all', 2));
+
+    expect(waits.every((wait) => wait === 0)).toBe(true);
+  });
+});
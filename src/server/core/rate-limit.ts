@@ -0,0 +1,82 @@
+import type { NextFunction, Request, Response } from 'express';
+import { getPlayer } from './auth';
+import { withLock } from './lock';
+import { store } from './store';
+import type { ErrorResponse } from '../../shared/types/api';
+import { GUEST_RATE_LIMIT_SCALE, RATE_LIMITS, type RateLimitedRoute } from '../config';
+
+const RATE_LIMIT_PREFIX = 'ratelimit:';
+
+/** Bucket shared by every logged-out player; `~` keeps it apart from Reddit usernames */
+const GUEST_BUCKET = 'guest~all';
+
+/**
+ * Take one token from `bucket` (a username, or the shared guest bucket) for `route`,
+ * whose size and refill are `scale` times the route's limits.
+ * Returns 0 if allowed, otherwise the seconds until a token is available.
+ * The bucket is read and written under a lock, so parallel requests can't all spend
+ * the same token; a request that can't get the lock is part of a burst and is refused.
+ */
+export const takeToken = async (
+  route: RateLimitedRoute,
+  bucket: string,
+  scale = 1
+): Promise<number> => {
+  const capacity = RATE_LIMITS[route].capacity * scale;
+  const refillPerMinute = RATE_LIMITS[route].refillPerMinute * scale;
+  const key = `${RATE_LIMIT_PREFIX}${route}:${bucket}`;
+  const msPerToken = 60_000 / refillPerMinute;
+
+  let locked = false;
+  try {
+    return await withLock(key, async () => {
+      locked = true;
+      const now = Date.now();
+      const state = await store.hGetAll(key);
+      const updatedAt = state.updatedAt ? Number(state.updatedAt) : now;
+      const stored = state.tokens !== undefined ? Number(state.tokens) : capacity;
+      const tokens = Math.min(capacity, stored + (now - updatedAt) / msPerToken);
+
+      if (tokens < 1) {
+        return Math.ceil(((1 - tokens) * msPerToken) / 1000);
+      }
+
+      await store.hSet(key, { tokens: String(tokens - 1), updatedAt: String(now) });
+      // A bucket left alone refills completely; no need to keep it after that
+      await store.expire(key, Math.ceil((capacity * msPerToken) / 1000));
+      return 0;
+    });
+  } catch (error) {
+    if (locked) throw error;
+    return Math.ceil(msPerToken / 1000);
+  }
+};
+
+/**
+ * Express middleware: per-user token bucket for `route`, limits from config.
+ * Logged-out players share the guest bucket, since they can rotate their ids.
+ */
+export const rateLimit =
+  (route: RateLimitedRoute) =>
+  async (req: Request, res: Response<ErrorResponse>, next: NextFunction): Promise<void> => {
+    try {
+      const { username, isGuest } = await getPlayer(req);
+      const retryAfter = isGuest
+        ? await takeToken(route, GUEST_BUCKET, GUEST_RATE_LIMIT_SCALE)
+        : await takeToken(route, username);
+      if (retryAfter > 0) {
+        res.setHeader('Retry-After', String(retryAfter));
+        res.status(429).json({
+          status: 'error',
+          code: 'rate_limited',
+          message: 'Too many requests, please slow down',
+          retryAfter,
+        });
+        return;
+      }
+    } catch (error) {
+      // Never block play because the limiter itself failed
+      console.error(`Rate limiter error on ${route}:`, error);
+    }
+    next();
+  };
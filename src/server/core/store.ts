@@ -0,0 +1,81 @@
+import { redis } from '@devvit/web/server';
+
+// Key-value storage used by every service. Production runs on Devvit Redis; local runs
+// and tests can swap in another implementation (e.g. MemoryStore) with setStore().
+
+export interface ZMember {
+  member: string;
+  score: number;
+}
+
+export interface ZRangeOptions {
+  by: 'rank' | 'score' | 'lex';
+  /** Highest first. For score/lex ranges `start` is then the upper bound */
+  reverse?: boolean;
+  /** Only for score/lex ranges; without it at most 1000 members are returned */
+  limit?: { offset: number; count: number };
+}
+
+export interface SetOptions {
+  /** Only set the key if it does not already exist */
+  nx?: boolean;
+  /** Only set the key if it already exists */
+  xx?: boolean;
+  expiration?: Date;
+}
+
+/**
+ * The subset of Redis the app uses, with Devvit Redis signatures
+ */
+export interface KeyValueStore {
+  get(key: string): Promise<string | undefined>;
+  set(key: string, value: string, options?: SetOptions): Promise<string>;
+  del(...keys: string[]): Promise<void>;
+  exists(...keys: string[]): Promise<number>;
+  expire(key: string, seconds: number): Promise<void>;
+  incrBy(key: string, value: number): Promise<number>;
+
+  hGet(key: string, field: string): Promise<string | undefined>;
+  hMGet(key: string, fields: string[]): Promise<(string | null)[]>;
+  hGetAll(key: string): Promise<Record<string, string>>;
+  hSet(key: string, fieldValues: Record<string, string>): Promise<number>;
+  hSetNX(key: string, field: string, value: string): Promise<number>;
+  hDel(key: string, fields: string[]): Promise<number>;
+  hIncrBy(key: string, field: string, value: number): Promise<number>;
+
+  zAdd(key: string, ...members: ZMember[]): Promise<number>;
+  zRange(
+    key: string,
+    start: number | string,
+    stop: number | string,
+    options?: ZRangeOptions
+  ): Promise<ZMember[]>;
+  zRank(key: string, member: string): Promise<number | undefined>;
+  zScore(key: string, member: string): Promise<number | undefined>;
+  zCard(key: string): Promise<number>;
+  zRem(key: string, members: string[]): Promise<number>;
+  zIncrBy(key: string, member: string, value: number): Promise<number>;
+}
+
+/** Devvit Redis (production) */
+export const devvitStore: KeyValueStore = redis;
+
+let activeStore: KeyValueStore = devvitStore;
+
+/**
+ * Replace the store every service uses (local runs, tests)
+ */
+export const setStore = (next: KeyValueStore): void => {
+  activeStore = next;
+};
+
+/**
+ * The active store. Services import this rather than `redis`, so the backing
+ * implementation can be swapped without touching them.
+ */
+export const store: KeyValueStore = new Proxy({} as KeyValueStore, {
+  get: (_target, method) => {
+    const value = activeStore[method as keyof KeyValueStore];
+    return typeof value === 'function' ? value.bind(activeStore) : value;
+  },
+});
@@ -2,9 +2,17 @@ import express from 'express';
 import { InitResponse, IncrementResponse, DecrementResponse } from '../shared/types/api';
 import type {
   GetDailyPuzzleResponse,
+  ArchivePuzzleQuery,
+  GetArchiveDaysResponse,
   GetPracticePuzzleResponse,
   ValidatePuzzleRequest,
   ValidatePuzzleResponse,
+  SubmitGuessRequest,
+  SubmitGuessResponse,
+  GetHintRequest,
+  GetHintResponse,
+  ResumePuzzleRequest,
+  ResumePuzzleResponse,
   SubmitScoreRequest,
   SubmitScoreResponse,
   GenerateShareRequest,
@@ -12,17 +20,116 @@ import type {
   GetScoreHistoryResponse,
   SaveProgressRequest,
   SaveProgressResponse,
-  PlayHistoryEntry,
+  ScoreHistoryQuery,
   ErrorResponse,
   GetLeaderboardResponse,
-  LeaderboardEntry,
+  LeaderboardQuery,
+  LeaderboardBoard,
+  AnomalyReason,
+  GetReviewQueueResponse,
+  ResolveReviewRequest,
+  ResolveReviewResponse,
+  ReviewAction,
+  GetReplayResponse,
 } from '../shared/types/api';
-import { redis, reddit, createServer, context, getServerPort } from '@devvit/web/server';
-import { createPost } from './core/post';
-import { getDailyPuzzle, getPracticePuzzle, validatePuzzle } from './services/puzzle';
-import { calculateScore, generateShareText, formatTime } from '../shared/types/puzzle';
+import { reddit, createServer, context, getServerPort } from '@devvit/web/server';
+import { store } from './core/store';
+import type { UiResponse } from '@devvit/web/shared';
+import { createPost, getPostPuzzleId } from './core/post';
+import { getPlayer, isModerator, requireDiagnosticsEnabled, requireModerator } from './core/auth';
+import { rateLimit } from './core/rate-limit';
+import {
+  getDailyPuzzle,
+  getPracticePuzzle,
+  validatePuzzle,
+  resolvePuzzleToken,
+  toClientPuzzle,
+  toPuzzleReveal,
+  checkGuess,
+  getHintLetter,
+  getDailyPuzzleId,
+  getDailyPuzzleDate,
+  getPuzzleNumberForDate,
+  previewDailyPuzzles,
+  clearDailyPuzzle,
+  rerollDailyPuzzle,
+  syncLibraryNow,
+} from './services/puzzle';
+import type { DailyPuzzlePreview } from './services/puzzle';
+import { getRegisteredPuzzle, getRegisteredPuzzleIds } from './services/puzzle-registry';
+import {
+  addLeaderboardScore,
+  getLeaderboardAroundUser,
+  getLeaderboardEntry,
+  getLeaderboardPage,
+  getLeaderboardSize,
+  leaderboardBoardId,
+} from './services/leaderboard';
+import { buildReplay, getReplay, saveReplay } from './services/replay';
+import {
+  detectScoreAnomalies,
+  getReviewQueue,
+  holdScoreForReview,
+  isBanned,
+  resolveReview,
+} from './services/anti-cheat';
+import { calculateScore, generateShareText, formatTime, MAX_HINTS } from '../shared/types/puzzle';
+import type { Puzzle, Score } from '../shared/types/puzzle';
 import { getRedditPostUrl } from '../shared/reddit-link';
-import { initializePostDatabase, getAvailableSubreddits, repairLibraryPermalinks } from './services/post-database';
+import {
+  initializePostDatabase,
+  getAvailableSubreddits,
+  repairLibraryPermalinks,
+  resetUsedDailyPosts,
+  getLibraryStats,
+  clearLibrary,
+  getPostLastUsed,
+  getDailyPostUsage,
+} from './services/post-database';
+import type { DailyPostUsage } from './services/post-database';
+import {
+  addHistoryEntry,
+  getHistoryEntries,
+  queryHistory,
+  deleteHistoryEntry,
+  clearHistory,
+} from './services/history';
+import {
+  getMigrationLog,
+  getSchemaVersion,
+  LATEST_SCHEMA_VERSION,
+  runMigrations,
+} from './services/migrations';
+import type { MigrationLogEntry } from './services/migrations';
+import { getRetentionLog, resetDailyPuzzle, runRetentionCleanup } from './services/retention';
+import { getRolloverLog, recordDailyPost, runDailyRollover } from './services/daily-rollover';
+import type { RolloverRun } from './services/daily-rollover';
+import {
+  blockPost,
+  getBlockedPosts,
+  getCalendar,
+  isSchedulableDate,
+  pinPostToDate,
+  pinTextToDate,
+  unblockPost,
+  unpinDate,
+} from './services/puzzle-calendar';
+import type { BlockedPost, CalendarDay } from './services/puzzle-calendar';
+import { deleteUserData, exportUserData } from './services/user-data';
+import type { UserDataExport, UserDataRemoved } from './services/user-data';
+import type { CleanupSummary } from './services/retention';
+import { DAILY_POSTS, RETENTION } from './config';
+import {
+  startSession,
+  pauseSession,
+  finishSession,
+  getSession,
+  getElapsedSeconds,
+  recordHint,
+  recordGuess,
+  recordRemoval,
+  toSessionProgress,
+} from './services/session';
 
 const app = express();
 
@@ -50,9 +157,10 @@ router.get<{ postId: string }, InitResponse | { status: string; message: string
     }
 
     try {
-      const [count, username] = await Promise.all([
-        redis.get('count'),
+      const [count, username, puzzleId] = await Promise.all([
+        store.get('count'),
         reddit.getCurrentUsername(),
+        getPostPuzzleId(postId),
       ]);
 
       res.json({
@@ -60,6 +168,7 @@ router.get<{ postId: string }, InitResponse | { status: string; message: string
         postId: postId,
         count: count ? parseInt(count) : 0,
         username: username ?? 'anonymous',
+        puzzleId: puzzleId ?? getDailyPuzzleId(),
       });
     } catch (error) {
       console.error(`API Init Error for post ${postId}:`, error);
@@ -85,7 +194,7 @@ router.post<{ postId: string }, IncrementResponse | { status: string; message: s
     }
 
     res.json({
-      count: await redis.incrBy('count', 1),
+      count: await store.incrBy('count', 1),
       postId,
       type: 'increment',
     });
@@ -105,7 +214,7 @@ router.post<{ postId: string }, DecrementResponse | { status: string; message: s
     }
 
     res.json({
-      count: await redis.incrBy('count', -1),
+      count: await store.incrBy('count', -1),
       postId,
       type: 'decrement',
     });
@@ -113,18 +222,54 @@ router.post<{ postId: string }, DecrementResponse | { status: string; message: s
 );
 
 router.post('/internal/on-app-install', async (_req, res): Promise<void> => {
-  try {
-    const post = await createPost();
+  // Publish today's post right away rather than waiting for the first midnight run
+  const run = await runDailyRollover('install');
+  if (run.error) {
+    res.status(400).json({
+      status: 'error',
+      message: `Failed to create post: ${run.error}`,
+    });
+    return;
+  }
+  res.json({
+    status: 'success',
+    message: `Post created in subreddit ${context.subredditName} with id ${run.postId}`,
+  });
+});
 
+router.post('/internal/on-app-upgrade', async (_req, res): Promise<void> => {
+  try {
+    const result = await runMigrations('upgrade');
     res.json({
-      status: 'success',
-      message: `Post created in subreddit ${context.subredditName} with id ${post.id}`,
+      status: result.error ? 'error' : 'success',
+      message: result.error ?? `Schema at v${result.toVersion}`,
     });
   } catch (error) {
-    console.error(`Error creating post: ${error}`);
+    console.error(`Error running migrations on upgrade: ${error}`);
     res.status(400).json({
       status: 'error',
-      message: 'Failed to create post',
+      message: 'Failed to run migrations',
+    });
+  }
+});
+
+router.post('/internal/scheduler/daily-rollover', async (_req, res): Promise<void> => {
+  const run = await runDailyRollover('scheduler');
+  res.json({
+    status: run.error ? 'error' : 'success',
+    ...(run.error ? { message: run.error } : {}),
+  });
+});
+
+router.post('/internal/scheduler/retention-cleanup', async (_req, res): Promise<void> => {
+  try {
+    const summary = await runRetentionCleanup('scheduler');
+    res.json({ status: summary.error ? 'error' : 'success' });
+  } catch (error) {
+    console.error(`Error running retention cleanup: ${error}`);
+    res.status(400).json({
+      status: 'error',
+      message: 'Failed to run retention cleanup',
     });
   }
 });
@@ -132,6 +277,8 @@ router.post('/internal/on-app-install', async (_req, res): Promise<void> => {
 router.post('/internal/menu/post-create', async (_req, res): Promise<void> => {
   try {
     const post = await createPost();
+    // Tracked like scheduled posts, so the rollover unstickies it once its day is over
+    await recordDailyPost(new Date().toISOString().split('T')[0] ?? '', post.id);
 
     res.json({
       navigateTo: `https://reddit.com/r/${context.subredditName}/comments/${post.id}`,
@@ -145,22 +292,509 @@ router.post('/internal/menu/post-create', async (_req, res): Promise<void> => {
   }
 });
 
+// ===== Moderator Menu Actions =====
+
+/** Confirmation form submissions carry no values; the form name selects the action */
+const confirmForm = (
+  name: string,
+  title: string,
+  description: string,
+  acceptLabel: string
+): UiResponse => ({
+  showForm: {
+    name,
+    form: { title, description, acceptLabel, fields: [] },
+  },
+});
+
+router.post<unknown, UiResponse>(
+  '/internal/menu/reroll-daily',
+  async (_req, res): Promise<void> => {
+    res.json(
+      confirmForm(
+        'rerollDailyConfirm',
+        "Re-roll today's puzzle?",
+        "Today's progress, scores and replays are cleared and players start the new puzzle. " +
+          'The current post stays marked as used.',
+        'Re-roll'
+      )
+    );
+  }
+);
+
+router.post<unknown, UiResponse>(
+  '/internal/form/reroll-daily',
+  async (_req, res): Promise<void> => {
+    try {
+      // Progress, scores and replays of the old puzzle would not match the new one
+      const players = await resetDailyPuzzle(getDailyPuzzleId());
+      const puzzle = await rerollDailyPuzzle();
+      console.log(
+        `Re-rolled daily puzzle ${puzzle.id} to post ${puzzle.source.id} (${players} players reset)`
+      );
+      res.json({
+        showToast: {
+          text: `Re-rolled ${puzzle.id} (r/${puzzle.source.subreddit})`,
+          appearance: 'success',
+        },
+      });
+    } catch (error) {
+      console.error('Error re-rolling daily puzzle:', error);
+      res.json({ showToast: 'Failed to re-roll the daily puzzle' });
+    }
+  }
+);
+
+router.post<unknown, UiResponse>(
+  '/internal/menu/sync-library',
+  async (_req, res): Promise<void> => {
+    try {
+      const { fetched, added } = await syncLibraryNow();
+      res.json({
+        showToast: {
+          text: `Fetched ${fetched} posts, ${added} new in library`,
+          appearance: 'success',
+        },
+      });
+    } catch (error) {
+      console.error('Error syncing library:', error);
+      res.json({ showToast: 'Failed to sync the library from Reddit' });
+    }
+  }
+);
+
+router.post<unknown, UiResponse>(
+  '/internal/menu/repair-library',
+  async (_req, res): Promise<void> => {
+    try {
+      const fixedCount = await repairLibraryPermalinks();
+      res.json({
+        showToast: {
+          text: `Repaired ${fixedCount} posts with bad permalinks`,
+          appearance: 'success',
+        },
+      });
+    } catch (error) {
+      console.error('Error repairing library:', error);
+      res.json({ showToast: 'Failed to repair library permalinks' });
+    }
+  }
+);
+
+router.post<unknown, UiResponse>(
+  '/internal/menu/reset-used',
+  async (_req, res): Promise<void> => {
+    res.json(
+      confirmForm(
+        'resetUsedConfirm',
+        'Reset used-post tracking?',
+        'Every library post becomes eligible for the daily puzzle again.',
+        'Reset'
+      )
+    );
+  }
+);
+
+router.post<unknown, UiResponse>(
+  '/internal/form/reset-used',
+  async (_req, res): Promise<void> => {
+    try {
+      await resetUsedDailyPosts();
+      res.json({ showToast: { text: 'Used-post tracking reset', appearance: 'success' } });
+    } catch (error) {
+      console.error('Error resetting used posts:', error);
+      res.json({ showToast: 'Failed to reset used-post tracking' });
+    }
+  }
+);
+
+router.post<unknown, UiResponse>(
+  '/internal/menu/library-stats',
+  async (_req, res): Promise<void> => {
+    try {
+      const stats = await getLibraryStats();
+      const difficulty = Object.entries(stats.byDifficulty)
+        .map(([level, count]) => `${level}: ${count}`)
+        .join(', ');
+      const readOnly = (name: string, label: string, value: string) =>
+        ({ type: 'string', name, label, defaultValue: value, disabled: true }) as const;
+
+      res.json({
+        showForm: {
+          name: 'libraryStats',
+          form: {
+            title: 'PostCipher library',
+            acceptLabel: 'Close',
+            fields: [
+              readOnly('total', 'Posts', String(stats.total)),
+              readOnly('cipherFriendly', 'Cipher-friendly', String(stats.cipherFriendly)),
+              readOnly('subreddits', 'Subreddits', String(stats.subreddits)),
+              readOnly('usedForDaily', 'In no-repeat window', String(stats.usedForDaily)),
+              readOnly('difficulty', 'By difficulty', difficulty || 'none'),
+            ],
+          },
+        },
+      });
+    } catch (error) {
+      console.error('Error loading library stats:', error);
+      res.json({ showToast: 'Failed to load library stats' });
+    }
+  }
+);
+
+router.post<unknown, UiResponse>(
+  '/internal/form/library-stats',
+  async (_req, res): Promise<void> => {
+    // Stats form is read-only; closing it needs no action
+    res.json({});
+  }
+);
+
+router.post<unknown, UiResponse>(
+  '/internal/menu/review-scores',
+  async (_req, res): Promise<void> => {
+    try {
+      const { items, total } = await getReviewQueue();
+      if (items.length === 0) {
+        res.json({ showToast: { text: 'No scores awaiting review', appearance: 'success' } });
+        return;
+      }
+
+      res.json({
+        showForm: {
+          name: 'reviewScore',
+          form: {
+            title: `Flagged scores (${total})`,
+            acceptLabel: 'Apply',
+            fields: [
+              {
+                type: 'select',
+                name: 'id',
+                label: 'Score',
+                required: true,
+                options: items.map((item) => ({
+                  label: `u/${item.score.username} • ${item.score.puzzleId}${item.board === 'archive' ? ' (archive)' : ''} • ${item.score.score} pts in ${formatTime(item.score.time)} • ${item.reasons.join(', ')}`,
+                  value: item.id,
+                })),
+              },
+              {
+                type: 'select',
+                name: 'action',
+                label: 'Action',
+                required: true,
+                options: [
+                  { label: 'Approve (add to leaderboard)', value: 'approve' },
+                  { label: 'Reject (discard score)', value: 'reject' },
+                  { label: 'Ban user (discard and hold future scores)', value: 'ban' },
+                ],
+              },
+            ],
+          },
+        },
+      });
+    } catch (error) {
+      console.error('Error loading review queue:', error);
+      res.json({ showToast: 'Failed to load the review queue' });
+    }
+  }
+);
+
+router.post<unknown, UiResponse, { id?: string[]; action?: string[] }>(
+  '/internal/form/review-score',
+  async (req, res): Promise<void> => {
+    try {
+      // Select fields submit their values as arrays
+      const id = req.body.id?.[0];
+      const action = req.body.action?.[0] as ReviewAction | undefined;
+      if (!id || !action || !REVIEW_ACTIONS.includes(action)) {
+        res.json({ showToast: 'Pick a score and an action' });
+        return;
+      }
+
+      const moderator = (await reddit.getCurrentUsername()) || 'anonymous';
+      const item = await resolveReview(id, action, moderator);
+      res.json({
+        showToast: item
+          ? {
+              text: `${action}: u/${item.score.username} on ${item.score.puzzleId}`,
+              appearance: 'success',
+            }
+          : 'That score was already resolved',
+      });
+    } catch (error) {
+      console.error('Error resolving review:', error);
+      res.json({ showToast: 'Failed to resolve the flagged score' });
+    }
+  }
+);
+
+const CALENDAR_ACTIONS = ['pin-post', 'pin-text', 'unpin', 'block', 'unblock'] as const;
+type CalendarAction = (typeof CALENDAR_ACTIONS)[number];
+
+/**
+ * Apply one puzzle calendar change (moderator form and admin API).
+ * `value` is the post id, or the custom text for pin-text.
+ */
+async function applyCalendarAction(
+  action: CalendarAction,
+  date: string,
+  value: string
+): Promise<{ ok: boolean; message: string }> {
+  const moderator = (await reddit.getCurrentUsername()) || 'anonymous';
+  const needsDate = action === 'pin-post' || action === 'pin-text' || action === 'unpin';
+  if (needsDate && !isSchedulableDate(date)) {
+    return { ok: false, message: 'Date must be YYYY-MM-DD, from today up to a year ahead' };
+  }
+  if (!value && action !== 'unpin') {
+    const missing = action === 'pin-text' ? 'the puzzle text' : 'a post id';
+    return { ok: false, message: `Enter ${missing}` };
+  }
+
+  switch (action) {
+    case 'pin-post':
+      return (await pinPostToDate(date, value, moderator))
+        ? { ok: true, message: `Pinned post ${value} to ${date}` }
+        : { ok: false, message: `Post ${value} is not in the library` };
+    case 'pin-text':
+      return (await pinTextToDate(date, value, moderator, context.subredditName ?? ''))
+        ? { ok: true, message: `Pinned custom text to ${date}` }
+        : {
+            ok: false,
+            message: 'Text must be 20-250 characters, mostly letters, with no digits',
+          };
+    case 'unpin':
+      return (await unpinDate(date))
+        ? { ok: true, message: `Removed the pin for ${date}` }
+        : { ok: false, message: `Nothing is pinned to ${date}` };
+    case 'block':
+      return (await blockPost(value, moderator))
+        ? { ok: true, message: `Blocked post ${value} from daily puzzles` }
+        : { ok: false, message: `Post ${value} is not in the library` };
+    case 'unblock':
+      return (await unblockPost(value))
+        ? { ok: true, message: `Unblocked post ${value}` }
+        : { ok: false, message: `Post ${value} was not blocked` };
+  }
+}
+
+/** Days shown by the moderator calendar preview */
+const CALENDAR_PREVIEW_DAYS = 30;
+
+router.post<unknown, UiResponse>(
+  '/internal/menu/calendar-preview',
+  async (_req, res): Promise<void> => {
+    try {
+      const previews = await previewDailyPuzzles(CALENDAR_PREVIEW_DAYS);
+      const blocked = await getBlockedPosts();
+      const origins: Record<DailyPuzzlePreview['origin'], string> = {
+        generated: 'Live',
+        pinned: 'Pinned',
+        automatic: 'Planned',
+      };
+      // Only automatic picks can be swapped; pinned days are changed on the calendar
+      const swappable = previews.filter((preview) => preview.origin === 'automatic');
+
+      res.json({
+        showForm: {
+          name: 'calendarPreview',
+          form: {
+            title: `Cryptogram calendar: next ${CALENDAR_PREVIEW_DAYS} days`,
+            description:
+              `${blocked.length} posts blocked from daily use. Swapping out a planned ` +
+              'post blocks it, so the day gets the next pick.',
+            acceptLabel: 'Swap out',
+            fields: [
+              ...previews.map(
+                (preview) =>
+                  ({
+                    type: 'paragraph',
+                    name: preview.date,
+                    label: `${preview.date} #${preview.puzzleNumber}: ${origins[preview.origin]}`,
+                    defaultValue:
+                      `${preview.post.title} (${preview.post.subreddit}, ${preview.post.id})\n` +
+                      preview.cipherText,
+                    disabled: true,
+                  }) as const
+              ),
+              ...(swappable.length > 0
+                ? [
+                    {
+                      type: 'select',
+                      name: 'swap',
+                      label: 'Swap out a planned post',
+                      options: swappable.map((preview) => ({
+                        label: `${preview.date}: ${preview.post.title}`,
+                        value: preview.post.id,
+                      })),
+                    } as const,
+                  ]
+                : []),
+            ],
+          },
+        },
+      });
+    } catch (error) {
+      console.error('Error loading puzzle calendar:', error);
+      res.json({ showToast: 'Failed to load the puzzle calendar' });
+    }
+  }
+);
+
+router.post<unknown, UiResponse, { swap?: string[] }>(
+  '/internal/form/calendar-preview',
+  async (req, res): Promise<void> => {
+    try {
+      // Select fields submit their values as arrays; no pick just closes the preview
+      const postId = req.body.swap?.[0];
+      if (!postId) {
+        res.json({});
+        return;
+      }
+      const result = await applyCalendarAction('block', '', postId);
+      res.json({
+        showToast: result.ok
+          ? { text: `${result.message}; the next pick takes its day`, appearance: 'success' }
+          : result.message,
+      });
+    } catch (error) {
+      console.error('Error swapping planned post:', error);
+      res.json({ showToast: 'Failed to swap out the planned post' });
+    }
+  }
+);
+
+router.post<unknown, UiResponse>(
+  '/internal/menu/calendar-edit',
+  async (_req, res): Promise<void> => {
+    res.json({
+      showForm: {
+        name: 'calendarEdit',
+        form: {
+          title: 'Schedule a daily cryptogram',
+          description:
+            'Pins replace automatic selection for their date. A day whose puzzle is already ' +
+            "generated keeps it; re-roll today's puzzle to apply a pin for today.",
+          acceptLabel: 'Save',
+          fields: [
+            {
+              type: 'select',
+              name: 'action',
+              label: 'Action',
+              required: true,
+              options: [
+                { label: 'Pin a library post to a date', value: 'pin-post' },
+                { label: 'Pin custom text to a date', value: 'pin-text' },
+                { label: 'Remove the pin for a date', value: 'unpin' },
+                { label: 'Block a post from daily use', value: 'block' },
+                { label: 'Unblock a post', value: 'unblock' },
+              ],
+            },
+            {
+              type: 'string',
+              name: 'date',
+              label: 'Date (YYYY-MM-DD, UTC)',
+              helpText: 'For pins only',
+            },
+            {
+              type: 'string',
+              name: 'value',
+              label: 'Post id or custom text',
+              helpText: 'Library post id (pin, block, unblock) or the puzzle text (pin text)',
+            },
+          ],
+        },
+      },
+    });
+  }
+);
+
+router.post<unknown, UiResponse, { action?: string[]; date?: string; value?: string }>(
+  '/internal/form/calendar-edit',
+  async (req, res): Promise<void> => {
+    try {
+      // Select fields submit their values as arrays
+      const action = req.body.action?.[0] as CalendarAction | undefined;
+      if (!action || !CALENDAR_ACTIONS.includes(action)) {
+        res.json({ showToast: 'Pick an action' });
+        return;
+      }
+
+      const result = await applyCalendarAction(
+        action,
+        req.body.date?.trim() ?? '',
+        req.body.value?.trim() ?? ''
+      );
+      res.json({
+        showToast: result.ok ? { text: result.message, appearance: 'success' } : result.message,
+      });
+    } catch (error) {
+      console.error('Error updating puzzle calendar:', error);
+      res.json({ showToast: 'Failed to update the puzzle calendar' });
+    }
+  }
+);
+
+router.post<unknown, UiResponse>(
+  '/internal/menu/run-migrations',
+  async (_req, res): Promise<void> => {
+    try {
+      const result = await runMigrations('menu');
+      if (result.locked) {
+        res.json({ showToast: 'Migrations are already running' });
+      } else if (result.error) {
+        res.json({ showToast: `Migration failed at v${result.toVersion + 1}: ${result.error}` });
+      } else {
+        res.json({
+          showToast: {
+            text:
+              result.applied.length > 0
+                ? `Schema upgraded v${result.fromVersion} → v${result.toVersion}`
+                : `Schema already at v${result.toVersion}`,
+            appearance: 'success',
+          },
+        });
+      }
+    } catch (error) {
+      console.error('Error running migrations:', error);
+      res.json({ showToast: 'Failed to run migrations' });
+    }
+  }
+);
+
+router.post<unknown, UiResponse>(
+  '/internal/menu/retry-rollover',
+  async (_req, res): Promise<void> => {
+    const run = await runDailyRollover('menu');
+    if (run.error) {
+      const at = run.failedStep ? ` at ${run.failedStep}` : '';
+      res.json({ showToast: `Rollover for ${run.date} failed${at}: ${run.error}` });
+      return;
+    }
+    res.json({
+      showToast: { text: `Daily post for ${run.date} is live and stickied`, appearance: 'success' },
+    });
+  }
+);
+
 // ===== Post URL Endpoint =====
 
 // ===== Admin Endpoints =====
 
+// Admin and diagnostics routes are moderator-only; diagnostics can also be switched off
+router.use(['/api/admin', '/api/test'], requireModerator);
+router.use('/api/test', requireDiagnosticsEnabled);
+
 /**
- * Clear the daily puzzle cache (forces regeneration on next request).
- * Useful for testing or fixing cached puzzles with bad data.
+ * Remove today's puzzle and its player state (forces regeneration on next request).
+ * Useful for testing or fixing puzzles with bad data.
  */
 router.post<unknown, { status: string; message: string }>(
   '/api/admin/clear-daily-cache',
   async (_req, res): Promise<void> => {
     try {
       const dateString = new Date().toISOString().split('T')[0];
-      const cacheKey = `puzzle:daily:${dateString}`;
-      await redis.del(cacheKey);
-      await redis.del('puzzle:daily:cached');
+      await resetDailyPuzzle(getDailyPuzzleId());
+      await clearDailyPuzzle();
       console.log(`Cleared daily puzzle cache for ${dateString}`);
       res.json({ status: 'success', message: `Cleared daily puzzle cache for ${dateString}` });
     } catch (error) {
@@ -208,9 +842,8 @@ router.post<unknown, { status: string; message: string; count: number }>(
   async (_req, res): Promise<void> => {
     try {
       // Delete existing library
-      await redis.del('postcipher:posts:all');
-      await redis.del('postcipher:posts:count');
-      await redis.del('postcipher:daily:used');
+      await clearLibrary();
+      await resetUsedDailyPosts();
       
       // Re-initialize from curated posts
       await initializePostDatabase();
@@ -226,11 +859,278 @@ router.post<unknown, { status: string; message: string; count: number }>(
         count 
       });
     } catch (error) {
-      console.error('Error resetting library:', error);
+      console.error('Error resetting library:', error);
+      res.status(500).json({
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Failed to reset library',
+        count: 0,
+      });
+    }
+  }
+);
+
+/**
+ * When posts were last used for the daily puzzle.
+ * `?postId=` looks up one post; otherwise lists the most recently used (`limit`, `offset`).
+ */
+router.get<
+  unknown,
+  { status: string; noRepeatWindowDays: number; posts: DailyPostUsage[] } | ErrorResponse,
+  unknown,
+  { postId?: string; limit?: string; offset?: string }
+>(
+  '/api/admin/daily-posts/last-used',
+  async (req, res): Promise<void> => {
+    try {
+      const { postId } = req.query;
+      const limit = Math.min(Math.max(parseInt(req.query.limit ?? '', 10) || 50, 1), 500);
+      const offset = Math.max(parseInt(req.query.offset ?? '', 10) || 0, 0);
+
+      let posts: DailyPostUsage[];
+      if (postId) {
+        const usage = await getPostLastUsed(postId);
+        posts = usage ? [usage] : [];
+      } else {
+        posts = await getDailyPostUsage(limit, offset);
+      }
+
+      res.json({
+        status: 'success',
+        noRepeatWindowDays: DAILY_POSTS.noRepeatWindowDays,
+        posts,
+      });
+    } catch (error) {
+      console.error('Error loading daily post usage:', error);
+      res.status(500).json({
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Failed to load daily post usage',
+      });
+    }
+  }
+);
+
+/**
+ * Schema version and the migration audit log.
+ */
+router.get<
+  unknown,
+  | { status: string; version: number; latestVersion: number; log: MigrationLogEntry[] }
+  | ErrorResponse
+>(
+  '/api/admin/migrations',
+  async (_req, res): Promise<void> => {
+    try {
+      res.json({
+        status: 'success',
+        version: await getSchemaVersion(),
+        latestVersion: LATEST_SCHEMA_VERSION,
+        log: await getMigrationLog(),
+      });
+    } catch (error) {
+      console.error('Error loading migration status:', error);
+      res.status(500).json({
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Failed to load migration status',
+      });
+    }
+  }
+);
+
+/**
+ * Retention policy and the cleanup job's recent run summaries.
+ */
+router.get<
+  unknown,
+  { status: string; policy: typeof RETENTION; runs: CleanupSummary[] } | ErrorResponse
+>(
+  '/api/admin/retention',
+  async (_req, res): Promise<void> => {
+    try {
+      res.json({ status: 'success', policy: RETENTION, runs: await getRetentionLog() });
+    } catch (error) {
+      console.error('Error loading retention log:', error);
+      res.status(500).json({
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Failed to load retention log',
+      });
+    }
+  }
+);
+
+/**
+ * Recent daily post rollovers (latest attempt per date), including failures to retry.
+ */
+router.get<unknown, { status: string; runs: RolloverRun[] } | ErrorResponse>(
+  '/api/admin/rollover',
+  async (_req, res): Promise<void> => {
+    try {
+      res.json({ status: 'success', runs: await getRolloverLog() });
+    } catch (error) {
+      console.error('Error loading rollover log:', error);
+      res.status(500).json({
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Failed to load rollover log',
+      });
+    }
+  }
+);
+
+/**
+ * Run a cleanup pass now instead of waiting for the schedule.
+ */
+router.post<unknown, { status: string; summary: CleanupSummary } | ErrorResponse>(
+  '/api/admin/retention/run',
+  async (_req, res): Promise<void> => {
+    try {
+      const summary = await runRetentionCleanup('admin');
+      res.json({ status: summary.error ? 'error' : 'success', summary });
+    } catch (error) {
+      console.error('Error running retention cleanup:', error);
+      res.status(500).json({
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Failed to run retention cleanup',
+      });
+    }
+  }
+);
+
+/**
+ * The daily puzzles the next `days` days (default 7, max 30) will get: post and cipher
+ * text, with pins, blocks and used-post state applied. Nothing is generated or marked used.
+ */
+router.get<
+  unknown,
+  { status: string; days: DailyPuzzlePreview[] } | ErrorResponse,
+  unknown,
+  { days?: string }
+>(
+  '/api/admin/daily-preview',
+  async (req, res): Promise<void> => {
+    try {
+      const days = Math.min(Math.max(parseInt(req.query.days ?? '', 10) || 7, 1), 30);
+      res.json({ status: 'success', days: await previewDailyPuzzles(days) });
+    } catch (error) {
+      console.error('Error previewing daily puzzles:', error);
+      res.status(500).json({
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Failed to preview daily puzzles',
+      });
+    }
+  }
+);
+
+/**
+ * Upcoming days of the puzzle calendar (`days`, default 30) and the blocked posts.
+ */
+router.get<
+  unknown,
+  { status: string; days: CalendarDay[]; blocked: BlockedPost[] } | ErrorResponse,
+  unknown,
+  { days?: string }
+>(
+  '/api/admin/calendar',
+  async (req, res): Promise<void> => {
+    try {
+      const days = Math.min(Math.max(parseInt(req.query.days ?? '', 10) || 30, 1), 90);
+      res.json({
+        status: 'success',
+        days: await getCalendar(days),
+        blocked: await getBlockedPosts(),
+      });
+    } catch (error) {
+      console.error('Error loading puzzle calendar:', error);
+      res.status(500).json({
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Failed to load puzzle calendar',
+      });
+    }
+  }
+);
+
+/**
+ * Change the puzzle calendar: pin-post, pin-text, unpin, block or unblock.
+ */
+router.post<
+  unknown,
+  { status: string; message: string },
+  { action?: CalendarAction; date?: string; value?: string }
+>(
+  '/api/admin/calendar',
+  async (req, res): Promise<void> => {
+    try {
+      const { action, date, value } = req.body;
+      if (!action || !CALENDAR_ACTIONS.includes(action)) {
+        res.status(400).json({
+          status: 'error',
+          message: `action must be one of ${CALENDAR_ACTIONS.join(', ')}`,
+        });
+        return;
+      }
+
+      const result = await applyCalendarAction(action, date?.trim() ?? '', value?.trim() ?? '');
+      res.status(result.ok ? 200 : 400).json({
+        status: result.ok ? 'success' : 'error',
+        message: result.message,
+      });
+    } catch (error) {
+      console.error('Error updating puzzle calendar:', error);
+      res.status(500).json({
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Failed to update puzzle calendar',
+      });
+    }
+  }
+);
+
+const REVIEW_ACTIONS: ReviewAction[] = ['approve', 'reject', 'ban'];
+
+/**
+ * List scores held for moderator review (oldest first).
+ */
+router.get<unknown, GetReviewQueueResponse | ErrorResponse>(
+  '/api/admin/review',
+  async (_req, res): Promise<void> => {
+    try {
+      const { items, total } = await getReviewQueue();
+      res.json({ type: 'review-queue', items, total });
+    } catch (error) {
+      console.error('Error loading review queue:', error);
+      res.status(500).json({
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Failed to load review queue',
+      });
+    }
+  }
+);
+
+/**
+ * Approve, reject or ban from the review queue.
+ */
+router.post<unknown, ResolveReviewResponse | ErrorResponse, ResolveReviewRequest>(
+  '/api/admin/review/resolve',
+  async (req, res): Promise<void> => {
+    try {
+      const { id, action } = req.body;
+      if (!id || !REVIEW_ACTIONS.includes(action)) {
+        res.status(400).json({
+          status: 'error',
+          message: 'id and action (approve, reject or ban) are required',
+        });
+        return;
+      }
+
+      const moderator = (await reddit.getCurrentUsername()) || 'anonymous';
+      const item = await resolveReview(id, action, moderator);
+      if (!item) {
+        res.status(404).json({ status: 'error', message: 'Review item not found' });
+        return;
+      }
+      res.json({ type: 'review-resolved', id, action });
+    } catch (error) {
+      console.error('Error resolving review:', error);
       res.status(500).json({
         status: 'error',
-        message: error instanceof Error ? error.message : 'Failed to reset library',
-        count: 0,
+        message: error instanceof Error ? error.message : 'Failed to resolve review',
       });
     }
   }
@@ -244,21 +1144,15 @@ router.get<unknown, { posts: string; count: number }>(
   '/api/admin/export-library',
   async (_req, res): Promise<void> => {
     try {
-      const { getAllPosts } = await import('./services/post-database');
-      const allPosts = await getAllPosts();
+      const { getTopPosts } = await import('./services/post-database');
       
-      // Filter for cipher-friendly posts and format as TypeScript
-      const cipherFriendly = allPosts.filter(p => 
-        p.cipherFriendly && 
-        p.permalink?.includes('/comments/') &&
+      // Top 50 cipher-friendly posts by upvotes, formatted as TypeScript
+      const topPosts = await getTopPosts(50, p => 
+        Boolean(p.cipherFriendly) && 
+        p.permalink.includes('/comments/') &&
         !p.id.startsWith('curated-')
       );
       
-      // Sort by upvotes and take top 50
-      const topPosts = cipherFriendly
-        .sort((a, b) => b.upvotes - a.upvotes)
-        .slice(0, 50);
-      
       const formatted = topPosts.map(p => `  {
     id: '${p.id}',
     title: '${p.title.replace(/'/g, "\\'")}',
@@ -287,52 +1181,179 @@ router.get<unknown, { posts: string; count: number }>(
 
 // ===== Puzzle API Endpoints =====
 
-const MAX_HISTORY_ENTRIES = 100;
+// Per-user rate limits on the endpoints clients hit most (limits in config.ts)
+router.use('/api/puzzle/daily', rateLimit('puzzle-daily'));
+router.use('/api/puzzle/archive', rateLimit('puzzle-archive'));
+router.use('/api/puzzle/practice', rateLimit('puzzle-practice'));
+router.use('/api/puzzle/validate', rateLimit('puzzle-validate'));
+router.use('/api/puzzle/guess', rateLimit('puzzle-guess'));
+router.use('/api/puzzle/hint', rateLimit('puzzle-hint'));
+router.use('/api/score/submit', rateLimit('score-submit'));
+router.use('/api/me', rateLimit('me-data'));
+
+/**
+ * Date of the daily puzzle the current post plays: the one bound to the post,
+ * or today outside a post or for posts with no binding
+ */
+async function getPostPuzzleDate(): Promise<Date> {
+  const puzzleId = context.postId ? await getPostPuzzleId(context.postId) : undefined;
+  return (puzzleId && getDailyPuzzleDate(puzzleId)) || new Date();
+}
+
+/**
+ * Daily puzzle payload for a player: the stored result if they already solved it,
+ * otherwise the puzzle with its (newly started or resumed) server-side session
+ */
+async function buildDailyPuzzleResponse(
+  puzzle: Puzzle,
+  username: string
+): Promise<GetDailyPuzzleResponse> {
+  let completed: boolean | undefined;
+  let completedScore: GetDailyPuzzleResponse['completedScore'];
+
+  try {
+    const scoreKey = `score:${puzzle.id}:${username}`;
+    const stored = await store.get(scoreKey);
+    if (stored) {
+      const data = JSON.parse(stored);
+      completed = true;
+      completedScore = {
+        score: data.score,
+        time: data.time,
+        hintsUsed: data.hintsUsed,
+        mistakes: data.mistakes ?? 0,
+        puzzleId: data.puzzleId,
+        date: data.date,
+        username: data.username,
+      };
+    }
+  } catch (e) {
+    // Ignore; completed stays undefined
+  }
+
+  // Serving the puzzle starts (or resumes) the server-side clock
+  const session = completed ? null : await startSession(puzzle.id, username);
+
+  return {
+    type: 'daily-puzzle',
+    puzzle: toClientPuzzle(puzzle),
+    puzzleNumber: getPuzzleNumberForDate(puzzle.date),
+    ...(completed && completedScore
+      ? { completed, completedScore, reveal: toPuzzleReveal(puzzle) }
+      : {}),
+    ...(session ? { progress: toSessionProgress(session) } : {}),
+  };
+}
 
+/**
+ * The daily puzzle for the current post, so older posts keep playing their own day
+ */
 router.get<unknown, GetDailyPuzzleResponse | ErrorResponse>(
   '/api/puzzle/daily',
-  async (_req, res): Promise<void> => {
+  async (req, res): Promise<void> => {
     try {
       await initializePostDatabase();
-      const today = new Date();
-      const puzzle = await getDailyPuzzle(today);
-      const puzzleNumber = parseInt((await redis.get('puzzle:number')) || '1', 10);
-
-      let completed: boolean | undefined;
-      let completedScore: GetDailyPuzzleResponse['completedScore'];
-
-      try {
-        const username = (await reddit.getCurrentUsername()) || 'anonymous';
-        const scoreKey = `score:${puzzle.id}:${username}`;
-        const stored = await redis.get(scoreKey);
-        if (stored) {
-          const data = JSON.parse(stored);
-          completed = true;
-          completedScore = {
-            score: data.score,
-            time: data.time,
-            hintsUsed: data.hintsUsed,
-            mistakes: data.mistakes ?? 0,
-            puzzleId: data.puzzleId,
-            date: data.date,
-            username: data.username,
-          };
-        }
-      } catch (e) {
-        // Ignore; completed stays undefined
+      const date = await getPostPuzzleDate();
+      const puzzleId = getDailyPuzzleId(date);
+      // A past day is only served if its puzzle actually ran; it is never generated late
+      const puzzle =
+        puzzleId < getDailyPuzzleId()
+          ? await getRegisteredPuzzle(puzzleId)
+          : await getDailyPuzzle(date);
+      if (!puzzle) {
+        res.status(404).json({ status: 'error', message: 'No daily puzzle ran on that date' });
+        return;
       }
+      const { username } = await getPlayer(req);
+      res.json(await buildDailyPuzzleResponse(puzzle, username));
+    } catch (error) {
+      console.error('Error getting daily puzzle:', error);
+      res.status(500).json({
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Failed to get daily puzzle',
+      });
+    }
+  }
+);
+
+/**
+ * Past dailies open to archive play: days up to yesterday whose puzzle actually ran
+ * (is registered), oldest first
+ */
+const getArchiveDates = async (): Promise<string[]> => {
+  const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+  const ids = await getRegisteredPuzzleIds(yesterday ?? '');
+  return ids.flatMap((id) => {
+    const date = getDailyPuzzleDate(id);
+    return date ? [date.toISOString().split('T')[0] ?? ''] : [];
+  });
+};
+
+/**
+ * Every past daily with the current user's result, newest first
+ */
+router.get<unknown, GetArchiveDaysResponse | ErrorResponse>(
+  '/api/puzzle/archive/days',
+  async (req, res): Promise<void> => {
+    try {
+      const { username } = await getPlayer(req);
+      const dates = (await getArchiveDates()).reverse();
+      const entries = await getHistoryEntries(
+        username,
+        dates.map((date) => `daily-${date}`)
+      );
 
       res.json({
-        type: 'daily-puzzle',
-        puzzle,
-        puzzleNumber,
-        ...(completed && completedScore ? { completed, completedScore } : {}),
+        type: 'archive-days',
+        days: dates.map((date, i) => {
+          const entry = entries[i];
+          return {
+            date,
+            puzzleNumber: getPuzzleNumberForDate(date),
+            status: !entry ? 'unplayed' : entry.isInProgress ? 'in-progress' : 'solved',
+          };
+        }),
       });
     } catch (error) {
-      console.error('Error getting daily puzzle:', error);
+      console.error('Error getting archive days:', error);
       res.status(500).json({
         status: 'error',
-        message: error instanceof Error ? error.message : 'Failed to get daily puzzle',
+        message: error instanceof Error ? error.message : 'Failed to get archive',
+      });
+    }
+  }
+);
+
+/**
+ * A past day's daily puzzle, served as it ran. Days that never had a puzzle are
+ * not generated after the fact. Solves go on the puzzle's archive leaderboard.
+ */
+router.get<unknown, GetDailyPuzzleResponse | ErrorResponse, unknown, ArchivePuzzleQuery>(
+  '/api/puzzle/archive',
+  async (req, res): Promise<void> => {
+    try {
+      const { date } = req.query;
+      const today = new Date().toISOString().split('T')[0] ?? '';
+      if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date) || date >= today) {
+        res.status(400).json({
+          status: 'error',
+          message: 'date must be a past daily puzzle date (YYYY-MM-DD)',
+        });
+        return;
+      }
+
+      const puzzle = await getRegisteredPuzzle(`daily-${date}`);
+      if (!puzzle) {
+        res.status(404).json({ status: 'error', message: 'No daily puzzle ran on that date' });
+        return;
+      }
+      const { username } = await getPlayer(req);
+      res.json({ ...(await buildDailyPuzzleResponse(puzzle, username)), archive: true });
+    } catch (error) {
+      console.error('Error getting archive puzzle:', error);
+      res.status(500).json({
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Failed to get archive puzzle',
       });
     }
   }
@@ -348,11 +1369,13 @@ router.get<unknown, GetPracticePuzzleResponse | ErrorResponse>(
       const seedParam = req.query.seed as string | undefined;
       const requestSeed =
         seedParam && !Number.isNaN(Number(seedParam)) ? Number(seedParam) : undefined;
-      const puzzle = await getPracticePuzzle(subreddit, requestSeed);
+      const { puzzle, token } = await getPracticePuzzle(subreddit, requestSeed);
+      const { username } = await getPlayer(req);
+      await startSession(puzzle.id, username);
 
       res.json({
         type: 'practice-puzzle',
-        puzzle,
+        puzzle: toClientPuzzle(puzzle, token),
       });
     } catch (error) {
       console.error('Error getting practice puzzle:', error);
@@ -518,12 +1541,14 @@ router.get<unknown, {
     try {
       const subreddit = (req.query.subreddit as string) || 'Showerthoughts';
       const { fetchPostsForSubreddit } = await import('./services/reddit');
-      const { syncRedditPostsToLibrary, getAllPosts } = await import('./services/post-database');
+      const { syncRedditPostsToLibrary, getTopPosts, getPostCount } = await import(
+        './services/post-database'
+      );
 
       const fetched = await fetchPostsForSubreddit(subreddit, 20, 'hot');
       const newAdded = fetched.length > 0 ? await syncRedditPostsToLibrary(fetched) : 0;
-      const allPosts = await getAllPosts();
-      const sample = allPosts.slice(0, 8).map((p) => ({
+      const libraryTotal = await getPostCount();
+      const sample = (await getTopPosts(8)).map((p) => ({
         id: p.id,
         title: (p.title || '').substring(0, 50),
         subreddit: p.subreddit || '',
@@ -535,11 +1560,11 @@ router.get<unknown, {
         ok: true,
         message:
           fetched.length > 0
-            ? `Fetched ${fetched.length} from API, synced (${newAdded} new). Library has ${allPosts.length} posts.`
-            : `No posts from API for r/${subreddit}. Library has ${allPosts.length} posts (curated/previous sync).`,
+            ? `Fetched ${fetched.length} from API, synced (${newAdded} new). Library has ${libraryTotal} posts.`
+            : `No posts from API for r/${subreddit}. Library has ${libraryTotal} posts (curated/previous sync).`,
         apiFetched: fetched.length,
         syncNewAdded: newAdded,
-        libraryTotal: allPosts.length,
+        libraryTotal,
         sampleFromLibrary: sample,
       });
     } catch (error) {
@@ -562,38 +1587,38 @@ router.post<unknown, ValidatePuzzleResponse | ErrorResponse, ValidatePuzzleReque
   '/api/puzzle/validate',
   async (req, res): Promise<void> => {
     try {
-      const { puzzleId, userMappings, seed, cipherText } = req.body;
+      const { token, userMappings } = req.body;
 
-      if (!puzzleId || !userMappings) {
+      if (!token || !userMappings) {
         res.status(400).json({
           status: 'error',
-          message: 'puzzleId and userMappings are required',
+          message: 'token and userMappings are required',
         });
         return;
       }
 
-      let puzzleData: { cipherText: string; seed: string };
+      const puzzle = await resolvePuzzleToken(token);
+      if (!puzzle) {
+        res.status(404).json({ status: 'error', message: 'Puzzle not found' });
+        return;
+      }
 
-      if (puzzleId.startsWith('practice-') && seed && cipherText) {
-        // Practice puzzles are not cached; client sends seed + cipherText for validation
-        puzzleData = { cipherText, seed };
-      } else {
-        // Daily puzzle: get from cache or generate
-        const dateString = new Date().toISOString().split('T')[0];
-        const cacheKey = `puzzle:daily:${dateString}`;
-        let puzzle = await redis.get(cacheKey);
-        if (!puzzle) {
-          const dailyPuzzle = await getDailyPuzzle();
-          puzzle = JSON.stringify(dailyPuzzle);
+      const { isSolved } = validatePuzzle(puzzle, userMappings);
+      if (isSolved) {
+        // First confirmed solve stops the server-side clock
+        const { username } = await getPlayer(req);
+        const session = await finishSession(puzzle.id, username);
+        if (session && session.finishedAt === undefined) {
+          // Paused: solving off the clock would score the pause as free time
+          res.status(409).json({ status: 'error', message: 'Puzzle is paused; resume it first' });
+          return;
         }
-        puzzleData = JSON.parse(puzzle);
       }
 
-      const validation = validatePuzzle(puzzleData, userMappings);
-
       res.json({
         type: 'validate',
-        ...validation,
+        isSolved,
+        ...(isSolved ? { reveal: toPuzzleReveal(puzzle) } : {}),
       });
     } catch (error) {
       console.error('Error validating puzzle:', error);
@@ -605,27 +1630,197 @@ router.post<unknown, ValidatePuzzleResponse | ErrorResponse, ValidatePuzzleReque
   }
 );
 
+/**
+ * Check one letter mapping against the answer, or record a removal or clear. Every
+ * edit is timed in the session, so replays show the board as it was played, and wrong
+ * guesses are counted.
+ */
+router.post<unknown, SubmitGuessResponse | ErrorResponse, SubmitGuessRequest>(
+  '/api/puzzle/guess',
+  async (req, res): Promise<void> => {
+    try {
+      const { token, action = 'map', cipherLetter = '', plainLetter = '' } = req.body;
+
+      const valid =
+        action === 'clear' ||
+        (action === 'remove' && /^[A-Z]$/.test(cipherLetter)) ||
+        (action === 'map' && /^[A-Z]$/.test(cipherLetter) && /^[A-Z]$/.test(plainLetter));
+      if (!token || !valid) {
+        res.status(400).json({
+          status: 'error',
+          message: 'token is required, with cipherLetter (A-Z) to remove or both letters to map',
+        });
+        return;
+      }
+
+      const puzzle = await resolvePuzzleToken(token);
+      if (!puzzle) {
+        res.status(404).json({ status: 'error', message: 'Puzzle not found' });
+        return;
+      }
+
+      const { username } = await getPlayer(req);
+      // Guesses are only answered against an active session, so the map can't be probed
+      // off the clock
+      const correct = action === 'map' ? checkGuess(puzzle, cipherLetter, plainLetter) : undefined;
+      const result =
+        correct === undefined
+          ? await recordRemoval(puzzle.id, username, action === 'remove' ? cipherLetter : null)
+          : await recordGuess(puzzle.id, username, cipherLetter, plainLetter, correct);
+
+      switch (result.status) {
+        case 'inactive':
+          res.status(409).json({ status: 'error', message: 'No active session for this puzzle' });
+          return;
+        case 'paused':
+          res.status(409).json({ status: 'error', message: 'Puzzle is paused; resume it first' });
+          return;
+      }
+
+      res.json({
+        type: 'guess',
+        ...(correct !== undefined ? { correct } : {}),
+        mistakes: result.mistakes,
+      });
+    } catch (error) {
+      console.error('Error checking guess:', error);
+      res.status(500).json({
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Failed to check guess',
+      });
+    }
+  }
+);
+
+/**
+ * Reveal one cipher letter the player has not mapped yet.
+ * The hint limit is enforced here against the server-side session.
+ */
+router.post<unknown, GetHintResponse | ErrorResponse, GetHintRequest>(
+  '/api/puzzle/hint',
+  async (req, res): Promise<void> => {
+    try {
+      const { token, exclude } = req.body;
+
+      if (!token) {
+        res.status(400).json({ status: 'error', message: 'token is required' });
+        return;
+      }
+
+      const puzzle = await resolvePuzzleToken(token);
+      if (!puzzle) {
+        res.status(404).json({ status: 'error', message: 'Puzzle not found' });
+        return;
+      }
+
+      const { username } = await getPlayer(req);
+      const requested = Array.isArray(exclude) ? exclude : [];
+      // Letters already revealed by hints are never revealed twice
+      const result = await recordHint(puzzle.id, username, MAX_HINTS, (revealed) =>
+        getHintLetter(puzzle, [...requested, ...revealed])
+      );
+
+      switch (result.status) {
+        case 'inactive':
+          res.status(409).json({ status: 'error', message: 'No active session for this puzzle' });
+          return;
+        case 'paused':
+          res.status(409).json({ status: 'error', message: 'Puzzle is paused; resume it first' });
+          return;
+        case 'limit':
+          res.status(403).json({ status: 'error', message: 'No hints remaining' });
+          return;
+        case 'exhausted':
+          res.status(409).json({ status: 'error', message: 'No letters left to reveal' });
+          return;
+      }
+
+      const { cipherLetter, plainLetter, hintsUsed } = result;
+      res.json({ type: 'hint', cipherLetter, plainLetter, hintsUsed });
+    } catch (error) {
+      console.error('Error getting hint:', error);
+      res.status(500).json({
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Failed to get hint',
+      });
+    }
+  }
+);
+
+/**
+ * Resume a paused puzzle (e.g. from history): restarts the server-side clock
+ * and returns the recorded hints and counters.
+ */
+router.post<unknown, ResumePuzzleResponse | ErrorResponse, ResumePuzzleRequest>(
+  '/api/puzzle/resume',
+  async (req, res): Promise<void> => {
+    try {
+      const { token } = req.body;
+      if (!token) {
+        res.status(400).json({ status: 'error', message: 'token is required' });
+        return;
+      }
+
+      const puzzle = await resolvePuzzleToken(token);
+      if (!puzzle) {
+        res.status(404).json({ status: 'error', message: 'Puzzle not found' });
+        return;
+      }
+
+      const { username } = await getPlayer(req);
+      const session = await startSession(puzzle.id, username);
+      res.json({ type: 'resume', progress: toSessionProgress(session) });
+    } catch (error) {
+      console.error('Error resuming puzzle:', error);
+      res.status(500).json({
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Failed to resume puzzle',
+      });
+    }
+  }
+);
+
 // ===== Score API Endpoints =====
 
 router.post<unknown, SubmitScoreResponse | ErrorResponse, SubmitScoreRequest>(
   '/api/score/submit',
   async (req, res): Promise<void> => {
     try {
-      const { puzzleId, time, hintsUsed, mistakes, mode, postLink, subreddit, title } = req.body;
+      const { token } = req.body;
 
-      if (!puzzleId) {
+      if (!token) {
         res.status(400).json({
           status: 'error',
-          message: 'puzzleId is required',
+          message: 'token is required',
         });
         return;
       }
 
-      const username = (await reddit.getCurrentUsername()) || 'anonymous';
+      const puzzle = await resolvePuzzleToken(token);
+      if (!puzzle) {
+        res.status(404).json({ status: 'error', message: 'Puzzle not found' });
+        return;
+      }
+      const puzzleId = puzzle.id;
+      const mode = puzzle.mode;
+
+      const { username, isGuest } = await getPlayer(req);
+
+      // Time, hints and mistakes come from the server-side session, never from the client
+      const session = await getSession(puzzleId, username);
+      if (!session || session.finishedAt === undefined) {
+        res.status(409).json({
+          status: 'error',
+          message: 'Puzzle has not been solved in a server-timed session',
+        });
+        return;
+      }
+      const time = getElapsedSeconds(session);
+      const { hintsUsed, mistakes } = session;
       const score = calculateScore(time, hintsUsed, mistakes);
-      const date = new Date().toISOString().split('T')[0];
+      const date = new Date().toISOString().split('T')[0] ?? '';
 
-      const scoreData = {
+      const scoreData: Score = {
         score,
         time,
         hintsUsed,
@@ -637,77 +1832,63 @@ router.post<unknown, SubmitScoreResponse | ErrorResponse, SubmitScoreRequest>(
 
       let rank: number | undefined;
       let totalPlayers: number | undefined;
-
-      if (mode === 'daily') {
+      let underReview = false;
+      // Solves finished after the puzzle's own day (archive play, old posts) are ranked
+      // separately; a solve finished in time stays live even if submitted late
+      const solvedOn = new Date(session.finishedAt).toISOString().split('T')[0];
+      const board: LeaderboardBoard = puzzle.date === solvedOn ? 'live' : 'archive';
+
+      // Guests play and keep temporary history, but nothing shared is written for them
+      if (mode === 'daily' && !isGuest) {
         const scoreKey = `score:${puzzleId}:${username}`;
-        await redis.set(scoreKey, JSON.stringify(scoreData));
-
-        // Add to daily leaderboard sorted set (score as the sort value, higher is better)
-        // Store entry data as JSON member, score as the zset score
-        const leaderboardKey = `leaderboard:${puzzleId}`;
-        const entryData = JSON.stringify({ username, score, time, hintsUsed });
-        
-        // Check if user already has an entry (only keep best score)
-        const existingEntries = await redis.zRange(leaderboardKey, 0, -1);
-        for (const existing of existingEntries) {
-          try {
-            const parsed = JSON.parse(existing.member);
-            if (parsed.username === username) {
-              // User already has entry - only update if new score is better
-              if (score > parsed.score) {
-                await redis.zRem(leaderboardKey, [existing.member]);
-              } else {
-                // Keep existing better score, just get rank
-                const existingRank = await redis.zRank(leaderboardKey, existing.member);
-                totalPlayers = existingEntries.length;
-                // zRank is 0-indexed from lowest, we want rank from highest
-                rank = existingRank !== undefined ? totalPlayers - existingRank : undefined;
-                break;
-              }
-            }
-          } catch {
-            // Skip malformed entries
-          }
+        await store.set(scoreKey, JSON.stringify(scoreData), {
+          expiration: new Date(Date.now() + RETENTION.dailyLeaderboardDays * 24 * 60 * 60 * 1000),
+        });
+        const replay = buildReplay(puzzle, session.timeline);
+        if (replay !== null) {
+          await saveReplay(puzzleId, username, replay);
         }
 
-        // Add the score (if not skipped above due to existing better score)
-        if (rank === undefined) {
-          await redis.zAdd(leaderboardKey, { member: entryData, score });
-          
-          // Get user's rank (zRank returns 0-indexed from lowest score)
-          const zRank = await redis.zRank(leaderboardKey, entryData);
-          const count = await redis.zCard(leaderboardKey);
-          totalPlayers = count;
-          // Convert to 1-indexed rank from highest score
-          rank = zRank !== undefined ? count - zRank : undefined;
+        // Implausible scores (and banned users) are held for moderator review, not ranked
+        const reasons: AnomalyReason[] = (await isBanned(username))
+          ? ['banned_user']
+          : detectScoreAnomalies(puzzle, session, time);
+        if (reasons.length > 0) {
+          await holdScoreForReview(scoreData, reasons, board);
+          underReview = true;
+        } else {
+          ({ rank, totalPlayers } = await addLeaderboardScore(leaderboardBoardId(puzzleId, board), {
+            username,
+            score,
+            time,
+            hintsUsed,
+            mistakes,
+          }));
         }
       }
 
-      // Append to play history (for success rate, past plays, view original posts)
-      const historyKey = `history:${username}`;
-      const entry: PlayHistoryEntry = {
+      // Record in play history (for success rate, past plays, view original posts)
+      await addHistoryEntry(username, {
         puzzleId,
         date,
         score,
         time,
         hintsUsed,
-        mistakes: mistakes ?? 0,
+        mistakes,
         mode,
-        postLink: postLink ?? '',
-        subreddit: subreddit ?? '',
-        title: title ?? '',
-      };
-      const existingJson = await redis.get(historyKey);
-      const history: PlayHistoryEntry[] = existingJson ? JSON.parse(existingJson) : [];
-      history.unshift(entry);
-      const trimmed = history.slice(0, MAX_HISTORY_ENTRIES);
-      await redis.set(historyKey, JSON.stringify(trimmed));
+        postLink: getRedditPostUrl(puzzle.source),
+        subreddit: puzzle.source.subreddit ?? '',
+        title: puzzle.source.title ?? '',
+      });
 
       res.json({
         type: 'score-submitted',
         score: scoreData,
-        rank,
-        totalPlayers,
+        ...(rank !== undefined ? { rank } : {}),
+        ...(totalPlayers !== undefined ? { totalPlayers } : {}),
+        ...(underReview ? { underReview } : {}),
+        ...(mode === 'daily' && !isGuest ? { board } : {}),
+        ...(isGuest ? { guest: true } : {}),
       });
     } catch (error) {
       console.error('Error submitting score:', error);
@@ -719,15 +1900,35 @@ router.post<unknown, SubmitScoreResponse | ErrorResponse, SubmitScoreRequest>(
   }
 );
 
-router.get<unknown, GetScoreHistoryResponse | ErrorResponse>(
+/**
+ * Page through the current user's play history, newest first.
+ * Filters: mode, subreddit, from/to (YYYY-MM-DD) and inProgress=true.
+ */
+router.get<unknown, GetScoreHistoryResponse | ErrorResponse, unknown, ScoreHistoryQuery>(
   '/api/score/history',
-  async (_req, res): Promise<void> => {
+  async (req, res): Promise<void> => {
     try {
-      const username = (await reddit.getCurrentUsername()) || 'anonymous';
-      const historyKey = `history:${username}`;
-      const json = await redis.get(historyKey);
-      const history: PlayHistoryEntry[] = json ? JSON.parse(json) : [];
-      res.json({ type: 'score-history', history });
+      const { username, isGuest } = await getPlayer(req);
+      const { cursor, mode, subreddit, from, to, inProgress } = req.query;
+      const limit = Math.min(Math.max(parseInt(req.query.limit ?? '', 10) || 20, 1), 100);
+      const { entries, nextCursor } = await queryHistory(
+        username,
+        {
+          ...(mode === 'daily' || mode === 'practice' ? { mode } : {}),
+          ...(subreddit ? { subreddit } : {}),
+          ...(from ? { from } : {}),
+          ...(to ? { to } : {}),
+          inProgressOnly: inProgress === 'true',
+        },
+        limit,
+        cursor
+      );
+      res.json({
+        type: 'score-history',
+        history: entries,
+        ...(nextCursor ? { nextCursor } : {}),
+        ...(isGuest ? { guest: true } : {}),
+      });
     } catch (error) {
       console.error('Error getting score history:', error);
       res.status(500).json({
@@ -743,11 +1944,10 @@ router.get<unknown, GetScoreHistoryResponse | ErrorResponse>(
  */
 router.post<unknown, { status: string; message: string }>(
   '/api/history/clear',
-  async (_req, res): Promise<void> => {
+  async (req, res): Promise<void> => {
     try {
-      const username = (await reddit.getCurrentUsername()) || 'anonymous';
-      const historyKey = `history:${username}`;
-      await redis.del(historyKey);
+      const { username } = await getPlayer(req);
+      await clearHistory(username);
       console.log(`Cleared play history for ${username}`);
       res.json({ status: 'success', message: 'History cleared' });
     } catch (error) {
@@ -772,12 +1972,8 @@ router.post<unknown, { status: string; message: string }, { puzzleId: string }>(
         res.status(400).json({ status: 'error', message: 'puzzleId is required' });
         return;
       }
-      const username = (await reddit.getCurrentUsername()) || 'anonymous';
-      const historyKey = `history:${username}`;
-      const existingJson = await redis.get(historyKey);
-      const history: PlayHistoryEntry[] = existingJson ? JSON.parse(existingJson) : [];
-      const filtered = history.filter((e) => e.puzzleId !== puzzleId);
-      await redis.set(historyKey, JSON.stringify(filtered));
+      const { username } = await getPlayer(req);
+      await deleteHistoryEntry(username, puzzleId);
       console.log(`Deleted history entry ${puzzleId} for ${username}`);
       res.json({ status: 'success', message: 'Entry deleted' });
     } catch (error) {
@@ -790,81 +1986,93 @@ router.post<unknown, { status: string; message: string }, { puzzleId: string }>(
   }
 );
 
-// ===== Leaderboard API Endpoints =====
+// ===== Personal Data API Endpoints =====
 
 /**
- * Get the daily leaderboard for a specific puzzle.
- * Returns top 10 scores plus the current user's rank if they're on the board.
+ * Download everything stored about the current user as one JSON bundle
  */
-router.get<unknown, GetLeaderboardResponse | ErrorResponse, unknown, { puzzleId?: string }>(
-  '/api/leaderboard/daily',
-  async (req, res): Promise<void> => {
+router.get<unknown, { status: string; data: UserDataExport } | ErrorResponse>(
+  '/api/me/export',
+  async (_req, res): Promise<void> => {
     try {
-      // Get puzzleId from query param, or use current daily puzzle
-      let puzzleId = req.query.puzzleId;
-      if (!puzzleId) {
-        // Default to current daily puzzle
-        const cachedPuzzle = await redis.get('puzzle:daily:cached');
-        if (cachedPuzzle) {
-          const parsed = JSON.parse(cachedPuzzle);
-          puzzleId = parsed.id;
-        }
+      const username = await reddit.getCurrentUsername();
+      if (!username) {
+        res.status(401).json({ status: 'error', message: 'Log in to export your data' });
+        return;
       }
+      res.json({ status: 'success', data: await exportUserData(username) });
+    } catch (error) {
+      console.error('Error exporting user data:', error);
+      res.status(500).json({
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Failed to export data',
+      });
+    }
+  }
+);
 
-      if (!puzzleId) {
-        res.status(400).json({
-          status: 'error',
-          message: 'puzzleId is required',
-        });
+/**
+ * Delete the current user's history, scores, leaderboard places, sessions and replays
+ */
+router.post<unknown, { status: string; removed: UserDataRemoved } | ErrorResponse>(
+  '/api/me/delete',
+  async (_req, res): Promise<void> => {
+    try {
+      const username = await reddit.getCurrentUsername();
+      if (!username) {
+        res.status(401).json({ status: 'error', message: 'Log in to delete your data' });
         return;
       }
+      res.json({ status: 'success', removed: await deleteUserData(username) });
+    } catch (error) {
+      console.error('Error deleting user data:', error);
+      res.status(500).json({
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Failed to delete data',
+      });
+    }
+  }
+);
 
-      const username = (await reddit.getCurrentUsername()) || 'anonymous';
-      const leaderboardKey = `leaderboard:${puzzleId}`;
-
-      // Get all entries sorted by score (highest first)
-      // zRange with rev: true returns highest to lowest
-      const allEntries = await redis.zRange(leaderboardKey, 0, -1, { by: 'rank', reverse: true });
-      const totalPlayers = allEntries.length;
-
-      // Parse entries and build leaderboard
-      const entries: LeaderboardEntry[] = [];
-      let userRank: number | undefined;
-      let userEntry: LeaderboardEntry | undefined;
-
-      for (let i = 0; i < allEntries.length; i++) {
-        try {
-          const parsed = JSON.parse(allEntries[i].member);
-          const entry: LeaderboardEntry = {
-            rank: i + 1,
-            username: parsed.username,
-            score: parsed.score,
-            time: parsed.time,
-            hintsUsed: parsed.hintsUsed,
-          };
+// ===== Leaderboard API Endpoints =====
 
-          // Track top 10 for display
-          if (i < 10) {
-            entries.push(entry);
-          }
-
-          // Track current user's position
-          if (parsed.username === username) {
-            userRank = i + 1;
-            userEntry = entry;
-          }
-        } catch {
-          // Skip malformed entries
-        }
-      }
+/**
+ * Get the daily leaderboard for a specific puzzle.
+ * Returns one page (top 10 by default) or the page around the current user,
+ * plus the current user's rank if they're on the board.
+ */
+router.get<unknown, GetLeaderboardResponse | ErrorResponse, unknown, LeaderboardQuery>(
+  '/api/leaderboard/daily',
+  async (req, res): Promise<void> => {
+    try {
+      // Get puzzleId from query param, or use the current post's daily puzzle
+      const puzzleId = req.query.puzzleId || getDailyPuzzleId(await getPostPuzzleDate());
+      const board: LeaderboardBoard = req.query.board === 'archive' ? 'archive' : 'live';
+      const boardId = leaderboardBoardId(puzzleId, board);
+      const pageSize = Math.min(Math.max(parseInt(req.query.pageSize ?? '', 10) || 10, 1), 50);
+      const page = Math.max(parseInt(req.query.page ?? '', 10) || 1, 1);
+
+      const { username, isGuest } = await getPlayer(req);
+      const userEntry = await getLeaderboardEntry(boardId, username);
+      const totalPlayers = await getLeaderboardSize(boardId);
+
+      const around =
+        req.query.view === 'around'
+          ? await getLeaderboardAroundUser(boardId, username, pageSize)
+          : null;
+      const entries = around ?? (await getLeaderboardPage(boardId, page, pageSize));
 
       res.json({
         type: 'leaderboard',
         puzzleId,
+        board,
         entries,
-        userRank,
-        userEntry,
+        ...(userEntry ? { userRank: userEntry.rank, userEntry } : {}),
         totalPlayers,
+        view: around ? 'around' : 'page',
+        ...(around ? {} : { page }),
+        pageSize,
+        ...(isGuest ? { guest: true } : {}),
       });
     } catch (error) {
       console.error('Error getting leaderboard:', error);
@@ -880,35 +2088,38 @@ router.post<unknown, SaveProgressResponse | ErrorResponse, SaveProgressRequest>(
   '/api/progress/save',
   async (req, res): Promise<void> => {
     try {
-      const { puzzleId, puzzle, userMappings, elapsedTime, hintsUsed, mistakes, mode, postLink, subreddit, title } = req.body;
-      if (!puzzleId || !puzzle) {
-        res.status(400).json({ status: 'error', message: 'puzzleId and puzzle are required' });
+      const { token, userMappings } = req.body;
+      if (!token) {
+        res.status(400).json({ status: 'error', message: 'token is required' });
         return;
       }
-      const username = (await reddit.getCurrentUsername()) || 'anonymous';
-      const historyKey = `history:${username}`;
+      const puzzle = await resolvePuzzleToken(token);
+      if (!puzzle) {
+        res.status(404).json({ status: 'error', message: 'Puzzle not found' });
+        return;
+      }
+      const { username } = await getPlayer(req);
+      await pauseSession(puzzle.id, username);
+      const session = await getSession(puzzle.id, username);
+      const elapsedTime = session ? getElapsedSeconds(session) : 0;
       const date = new Date().toISOString().split('T')[0];
-      const entry: PlayHistoryEntry = {
-        puzzleId,
+      // Title and link would give the answer away, so in-progress entries only keep the subreddit
+      await addHistoryEntry(username, {
+        puzzleId: puzzle.id,
         date,
         score: 0,
         time: elapsedTime,
-        hintsUsed: hintsUsed ?? 0,
-        mistakes: mistakes ?? 0,
-        mode,
-        postLink: postLink ?? '',
-        subreddit: subreddit ?? '',
-        title: title ?? '',
+        hintsUsed: session?.hintsUsed ?? 0,
+        mistakes: session?.mistakes ?? 0,
+        mode: puzzle.mode,
+        postLink: '',
+        subreddit: puzzle.source.subreddit ?? '',
+        title: '',
         isInProgress: true,
-        savedPuzzle: puzzle,
+        savedPuzzle: toClientPuzzle(puzzle, token),
         userMappings: userMappings ?? {},
         elapsedTime,
-      };
-      const existingJson = await redis.get(historyKey);
-      const history: PlayHistoryEntry[] = existingJson ? JSON.parse(existingJson) : [];
-      history.unshift(entry);
-      const trimmed = history.slice(0, MAX_HISTORY_ENTRIES);
-      await redis.set(historyKey, JSON.stringify(trimmed));
+      });
       res.json({ type: 'progress-saved' });
     } catch (error) {
       console.error('Error saving progress', error);
@@ -920,13 +2131,64 @@ router.post<unknown, SaveProgressResponse | ErrorResponse, SaveProgressRequest>(
   }
 );
 
+// ===== Replay API Endpoints =====
+
+/**
+ * Get a player's solve timeline for a daily puzzle.
+ * Replays give the answer away, so only players who solved the puzzle (and moderators) may watch.
+ */
+router.get<unknown, GetReplayResponse | ErrorResponse, unknown, { puzzleId?: string; username?: string }>(
+  '/api/replay',
+  async (req, res): Promise<void> => {
+    try {
+      const { puzzleId, username: player } = req.query;
+      if (!puzzleId || !player) {
+        res.status(400).json({ status: 'error', message: 'puzzleId and username are required' });
+        return;
+      }
+
+      const { username, isGuest } = await getPlayer(req);
+      const hasSolved = Boolean(await store.get(`score:${puzzleId}:${username}`));
+      if (!hasSolved && (isGuest || !(await isModerator(username)))) {
+        res.status(403).json({
+          status: 'error',
+          code: 'forbidden',
+          message: 'Solve the puzzle to watch replays',
+        });
+        return;
+      }
+
+      const puzzle = await getRegisteredPuzzle(puzzleId);
+      const replay = await getReplay(puzzleId, player);
+      if (!puzzle || replay === null) {
+        res.status(404).json({ status: 'error', message: 'Replay not found' });
+        return;
+      }
+
+      res.json({
+        type: 'replay',
+        puzzleId,
+        username: player,
+        cipherText: puzzle.cipherText,
+        replay,
+      });
+    } catch (error) {
+      console.error('Error getting replay:', error);
+      res.status(500).json({
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Failed to get replay',
+      });
+    }
+  }
+);
+
 // ===== Share API Endpoints =====
 
 router.post<unknown, GenerateShareResponse | ErrorResponse, GenerateShareRequest>(
   '/api/share/generate',
   async (req, res): Promise<void> => {
     try {
-      const { puzzleId, time, hintsUsed, score } = req.body;
+      const { puzzleId } = req.body;
 
       if (!puzzleId) {
         res.status(400).json({
@@ -936,12 +2198,9 @@ router.post<unknown, GenerateShareResponse | ErrorResponse, GenerateShareRequest
         return;
       }
 
-      // Get puzzle to find puzzle number and post link
-      const dateString = new Date().toISOString().split('T')[0];
-      const cacheKey = `puzzle:daily:${dateString}`;
-      const puzzleJson = await redis.get(cacheKey);
-      
-      if (!puzzleJson) {
+      // Get the shared puzzle to find puzzle number and post link
+      const puzzle = await getRegisteredPuzzle(puzzleId);
+      if (!puzzle) {
         res.status(404).json({
           status: 'error',
           message: 'Puzzle not found',
@@ -949,9 +2208,27 @@ router.post<unknown, GenerateShareResponse | ErrorResponse, GenerateShareRequest
         return;
       }
 
-      const puzzle = JSON.parse(puzzleJson);
-      const puzzleNumber = parseInt((await redis.get('puzzle:number')) || '1', 10);
-      const date = puzzle.date || dateString;
+      // The post link gives the answer away, and the result must be the server's own:
+      // share only a stored score or a server-confirmed solve
+      const { username } = await getPlayer(req);
+      const stored = await store.get(`score:${puzzleId}:${username}`);
+      const session = stored ? null : await getSession(puzzleId, username);
+      let time: number;
+      let hintsUsed: number;
+      let score: number;
+      if (stored) {
+        ({ time, hintsUsed, score } = JSON.parse(stored) as Score);
+      } else if (session?.finishedAt !== undefined) {
+        time = getElapsedSeconds(session);
+        hintsUsed = session.hintsUsed;
+        score = calculateScore(time, hintsUsed, session.mistakes);
+      } else {
+        res.status(409).json({ status: 'error', message: 'Solve the puzzle to share it' });
+        return;
+      }
+
+      const puzzleNumber = getPuzzleNumberForDate(puzzle.date);
+      const date = puzzle.date;
 
       const shareText = generateShareText(puzzleNumber, date, time, hintsUsed, score);
       const postLink = getRedditPostUrl(puzzle.source);
@@ -0,0 +1,172 @@
+// Anti-cheat - scoring anomaly detection, moderator review queue and bans
+// Flagged daily scores are kept off the leaderboard until a moderator approves them.
+
+import { store } from '../core/store';
+import type { Puzzle, Score } from '../../shared/types/puzzle';
+import type {
+  AnomalyReason,
+  FlaggedScore,
+  LeaderboardBoard,
+  ReviewAction,
+} from '../../shared/types/api';
+import { ANTI_CHEAT } from '../config';
+import { addLeaderboardScore, leaderboardBoardId } from './leaderboard';
+import type { PlaySession } from './session';
+
+const REVIEW_QUEUE_KEY = 'review:queue';
+const REVIEW_ITEM_PREFIX = 'review:item:';
+const BANNED_USERS_KEY = 'anticheat:banned';
+
+/**
+ * Check a solved session against the anomaly heuristics.
+ * Returns the reasons it looks implausible (empty if it looks fine).
+ */
+export function detectScoreAnomalies(
+  puzzle: Pick<Puzzle, 'cipherText'>,
+  session: PlaySession,
+  time: number
+): AnomalyReason[] {
+  const reasons: AnomalyReason[] = [];
+  const distinctLetters = new Set(puzzle.cipherText.match(/[A-Z]/g) || []).size;
+  // Letters revealed by hints did not have to be worked out
+  const lettersToSolve = Math.max(0, distinctLetters - Object.keys(session.hints).length);
+
+  if (time < lettersToSolve * ANTI_CHEAT.minSecondsPerLetter) {
+    reasons.push('too_fast');
+  }
+
+  // Every letter the client fills in is sent as a guess, so a solve needs at least that many
+  const guessTimes = session.timeline.filter((event) => event.type === 'map').map((e) => e.t);
+  if (guessTimes.length < lettersToSolve) {
+    reasons.push('missing_input');
+  }
+
+  const intervals = guessTimes.slice(1).map((t, i) => t - (guessTimes[i] ?? t));
+  if (intervals.length >= ANTI_CHEAT.minTimingSamples) {
+    const mean = intervals.reduce((sum, v) => sum + v, 0) / intervals.length;
+    const variance = intervals.reduce((sum, v) => sum + (v - mean) ** 2, 0) / intervals.length;
+    if (mean > 0 && Math.sqrt(variance) / mean < ANTI_CHEAT.minIntervalVariation) {
+      reasons.push('uniform_input');
+    }
+  }
+
+  return reasons;
+}
+
+/**
+ * True if a moderator has banned this user from the leaderboards
+ */
+export async function isBanned(username: string): Promise<boolean> {
+  return (await store.hGet(BANNED_USERS_KEY, username)) !== undefined;
+}
+
+/**
+ * Hold a score for moderator review instead of ranking it on `board`
+ */
+export async function holdScoreForReview(
+  score: Score,
+  reasons: AnomalyReason[],
+  board: LeaderboardBoard = 'live'
+): Promise<FlaggedScore> {
+  const item: FlaggedScore = {
+    id: `${score.puzzleId}:${score.username}`,
+    score,
+    reasons,
+    flaggedAt: Date.now(),
+    ...(board === 'archive' ? { board } : {}),
+  };
+  await store.set(`${REVIEW_ITEM_PREFIX}${item.id}`, JSON.stringify(item));
+  await store.zAdd(REVIEW_QUEUE_KEY, { member: item.id, score: item.flaggedAt });
+  console.log(`Held score ${item.id} for review: ${reasons.join(', ')}`);
+  return item;
+}
+
+/**
+ * Oldest flagged scores first
+ */
+export async function getReviewQueue(
+  limit: number = 25
+): Promise<{ items: FlaggedScore[]; total: number }> {
+  const total = await store.zCard(REVIEW_QUEUE_KEY);
+  const ids = await store.zRange(REVIEW_QUEUE_KEY, 0, limit - 1, { by: 'rank' });
+  const items: FlaggedScore[] = [];
+  for (const { member } of ids) {
+    const json = await store.get(`${REVIEW_ITEM_PREFIX}${member}`);
+    if (json) items.push(JSON.parse(json) as FlaggedScore);
+  }
+  return { items, total };
+}
+
+/**
+ * Resolve a flagged score: approve ranks it, reject drops it, ban drops it and
+ * holds every future score from the user. Returns null if the item is not queued.
+ */
+export async function resolveReview(
+  id: string,
+  action: ReviewAction,
+  moderator: string
+): Promise<FlaggedScore | null> {
+  const key = `${REVIEW_ITEM_PREFIX}${id}`;
+  const json = await store.get(key);
+  if (!json) return null;
+  const item = JSON.parse(json) as FlaggedScore;
+  const { score } = item;
+
+  if (action === 'approve') {
+    await addLeaderboardScore(leaderboardBoardId(score.puzzleId, item.board ?? 'live'), {
+      username: score.username,
+      score: score.score,
+      time: score.time,
+      hintsUsed: score.hintsUsed,
+      mistakes: score.mistakes,
+    });
+  } else if (action === 'ban') {
+    await store.hSet(BANNED_USERS_KEY, {
+      [score.username]: JSON.stringify({ bannedAt: Date.now(), by: moderator, reviewId: id }),
+    });
+  }
+
+  await store.del(key);
+  await store.zRem(REVIEW_QUEUE_KEY, [id]);
+  console.log(`Review ${id} resolved by ${moderator}: ${action}`);
+  return item;
+}
+
+/**
+ * A user's score held for review on one puzzle, or null if none is pending
+ */
+export async function getFlaggedScore(
+  puzzleId: string,
+  username: string
+): Promise<FlaggedScore | null> {
+  const json = await store.get(`${REVIEW_ITEM_PREFIX}${puzzleId}:${username}`);
+  return json ? (JSON.parse(json) as FlaggedScore) : null;
+}
+
+/**
+ * Withdraw a held score without a moderator decision (data deletion).
+ * Bans are moderation records and are kept.
+ */
+export async function removeFlaggedScore(puzzleId: string, username: string): Promise<void> {
+  const id = `${puzzleId}:${username}`;
+  await store.del(`${REVIEW_ITEM_PREFIX}${id}`);
+  await store.zRem(REVIEW_QUEUE_KEY, [id]);
+}
+
+/**
+ * Drop up to `limit` held scores flagged before `cutoffMs` without a decision
+ * (retention cleanup). Returns how many were removed and whether older items remain.
+ */
+export async function pruneReviewQueue(
+  cutoffMs: number,
+  limit: number
+): Promise<{ removed: number; more: boolean }> {
+  const ids = await store.zRange(REVIEW_QUEUE_KEY, '-inf', `(${cutoffMs}`, {
+    by: 'score',
+    limit: { offset: 0, count: limit },
+  });
+  if (ids.length === 0) return { removed: 0, more: false };
+  await store.del(...ids.map(({ member }) => `${REVIEW_ITEM_PREFIX}${member}`));
+  await store.zRem(REVIEW_QUEUE_KEY, ids.map(({ member }) => member));
+  return { removed: ids.length, more: ids.length === limit };
+}
@@ -0,0 +1,150 @@
+// Daily rollover - the UTC-midnight job that publishes each day's puzzle post
+// Pre-generates the puzzle, submits the post, stickies it and unstickies the previous
+// day's (and any other earlier daily posts). Every step is idempotent, so a failed run
+// can simply be retried.
+
+import { reddit } from '@devvit/web/server';
+import { acquireLock, releaseLock } from '../core/lock';
+import { createPost } from '../core/post';
+import { store } from '../core/store';
+import { getDailyPuzzle } from './puzzle';
+
+/** Hash of date (YYYY-MM-DD) -> id of that day's puzzle post */
+const DAILY_POSTS_KEY = 'rollover:posts';
+/** Hash of post id -> date, for further posts created for a date that already had one */
+const EXTRA_POSTS_KEY = 'rollover:extra-posts';
+/** Hash of date -> RolloverRun JSON (latest attempt for that date) */
+const ROLLOVER_LOG_KEY = 'rollover:log';
+const ROLLOVER_LOCK = 'rollover';
+const LOCK_TTL_MS = 2 * 60 * 1000;
+/** Days of runs kept in the log */
+const LOG_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type RolloverStep = 'puzzle' | 'post' | 'sticky' | 'unsticky';
+
+export interface RolloverRun {
+  /** Puzzle date, YYYY-MM-DD (UTC) */
+  date: string;
+  /** What started the run, e.g. 'scheduler' or 'menu' */
+  trigger: string;
+  startedAt: number;
+  durationMs: number;
+  /** Attempts for this date, including this one */
+  attempts: number;
+  /** Steps finished, in order */
+  completed: RolloverStep[];
+  postId?: string;
+  /** Step that failed; a retry runs every step again, skipping work already done */
+  failedStep?: RolloverStep;
+  error?: string;
+}
+
+const toDateString = (date: Date): string => date.toISOString().split('T')[0] ?? '';
+
+const getPost = (postId: string) => reddit.getPostById(postId as `t3_${string}`);
+
+/**
+ * Id of the daily post created for `date` (YYYY-MM-DD), if any
+ */
+export async function getDailyPostId(date: string): Promise<string | undefined> {
+  return store.hGet(DAILY_POSTS_KEY, date);
+}
+
+/**
+ * Record a daily post created outside the rollover (e.g. from the moderator menu).
+ * The first post for a date becomes that day's post, so the rollover stickies it
+ * instead of submitting another; later ones are only tracked to be unstickied.
+ */
+export async function recordDailyPost(date: string, postId: string): Promise<void> {
+  if ((await store.hSetNX(DAILY_POSTS_KEY, date, postId)) === 0) {
+    const current = await getDailyPostId(date);
+    if (current !== postId) await store.hSet(EXTRA_POSTS_KEY, { [postId]: date });
+  }
+}
+
+/**
+ * Publish the daily post for the UTC date of `now`. Never throws: failures are
+ * logged against the date for moderators, and returned.
+ */
+export async function runDailyRollover(
+  trigger: string,
+  now: Date = new Date()
+): Promise<RolloverRun> {
+  const date = toDateString(now);
+  const previous = await store.hGet(ROLLOVER_LOG_KEY, date);
+  const run: RolloverRun = {
+    date,
+    trigger,
+    startedAt: Date.now(),
+    durationMs: 0,
+    attempts: (previous ? (JSON.parse(previous) as RolloverRun).attempts : 0) + 1,
+    completed: [],
+  };
+
+  // Two overlapping runs could each submit a post
+  const lockToken = await acquireLock(ROLLOVER_LOCK, LOCK_TTL_MS);
+  if (!lockToken) {
+    return { ...run, error: 'Another rollover is already running' };
+  }
+
+  let step: RolloverStep = 'puzzle';
+  try {
+    await getDailyPuzzle(now);
+    run.completed.push(step);
+
+    step = 'post';
+    let postId = await getDailyPostId(date);
+    if (!postId) {
+      postId = (await createPost(now)).id;
+      await store.hSet(DAILY_POSTS_KEY, { [date]: postId });
+    }
+    run.postId = postId;
+    run.completed.push(step);
+
+    step = 'sticky';
+    const post = await getPost(postId);
+    if (!post.isStickied()) await post.sticky(1);
+    run.completed.push(step);
+
+    step = 'unsticky';
+    const previousPostId = await getDailyPostId(toDateString(new Date(now.getTime() - DAY_MS)));
+    if (previousPostId) {
+      const previousPost = await getPost(previousPostId);
+      if (previousPost.isStickied()) await previousPost.unsticky();
+    }
+    for (const [extraPostId, extraDate] of Object.entries(await store.hGetAll(EXTRA_POSTS_KEY))) {
+      if (extraDate >= date) continue;
+      // Dropped first, so a deleted post fails one run rather than every later one
+      await store.hDel(EXTRA_POSTS_KEY, [extraPostId]);
+      const extraPost = await getPost(extraPostId);
+      if (extraPost.isStickied()) await extraPost.unsticky();
+    }
+    run.completed.push(step);
+  } catch (error) {
+    run.failedStep = step;
+    run.error = error instanceof Error ? error.message : String(error);
+    console.error(`Daily rollover for ${date} failed at ${step}:`, error);
+  } finally {
+    await releaseLock(ROLLOVER_LOCK, lockToken);
+  }
+
+  run.durationMs = Date.now() - run.startedAt;
+  await store.hSet(ROLLOVER_LOG_KEY, { [date]: JSON.stringify(run) });
+  // Every date past the window, not just the one leaving it, in case runs were skipped
+  const cutoff = toDateString(new Date(now.getTime() - LOG_DAYS * DAY_MS));
+  const expired = Object.keys(await store.hGetAll(ROLLOVER_LOG_KEY)).filter((d) => d <= cutoff);
+  if (expired.length > 0) await store.hDel(ROLLOVER_LOG_KEY, expired);
+  if (!run.error) console.log(`Daily rollover for ${date}: post ${run.postId}`);
+  return run;
+}
+
+/**
+ * Latest run for each recent date, newest first
+ */
+export async function getRolloverLog(): Promise<RolloverRun[]> {
+  const log = await store.hGetAll(ROLLOVER_LOG_KEY);
+  return Object.values(log)
+    .map((json) => JSON.parse(json) as RolloverRun)
+    .sort((a, b) => b.date.localeCompare(a.date));
+}
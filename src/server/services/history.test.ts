@@ -0,0 +1,111 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { PlayHistoryEntry } from '../../shared/types/api';
+import { MemoryStore } from '../core/memory-store';
+import { setStore, store } from '../core/store';
+import {
+  addHistoryEntry,
+  clearHistory,
+  deleteHistoryEntry,
+  getHistoryEntries,
+  queryHistory,
+} from './history';
+
+const entry = (puzzleId: string, overrides: Partial<PlayHistoryEntry> = {}): PlayHistoryEntry => ({
+  puzzleId,
+  date: '2026-01-01',
+  score: 400,
+  time: 90,
+  hintsUsed: 0,
+  mistakes: 0,
+  mode: 'daily',
+  postLink: '',
+  subreddit: 'books',
+  title: 'A title',
+  ...overrides,
+});
+
+describe('history', () => {
+  beforeEach(() => {
+    setStore(new MemoryStore());
+  });
+
+  it('lists entries newest first and filters by mode', async () => {
+    await addHistoryEntry('alice', entry('daily-2026-01-01'));
+    await addHistoryEntry('alice', entry('practice-1', { mode: 'practice' }));
+
+    const all = await queryHistory('alice');
+    expect(all.entries.map((e) => e.puzzleId)).toEqual(['practice-1', 'daily-2026-01-01']);
+    const dailies = await queryHistory('alice', { mode: 'daily' });
+    expect(dailies.entries.map((e) => e.puzzleId)).toEqual(['daily-2026-01-01']);
+  });
+
+  it('never lets a paused save replace a finished entry', async () => {
+    await addHistoryEntry('alice', entry('daily-2026-01-01', { score: 700 }));
+    await addHistoryEntry('alice', entry('daily-2026-01-01', { score: 0, isInProgress: true }));
+
+    const [stored] = await getHistoryEntries('alice', ['daily-2026-01-01']);
+    expect(stored?.score).toBe(700);
+    expect(stored?.isInProgress).toBeUndefined();
+  });
+
+  it('moves legacy history into per-entry storage on first access', async () => {
+    await store.set(
+      'history:bob',
+      JSON.stringify([entry('daily-2026-01-02'), entry('daily-2026-01-01')])
+    );
+
+    const page = await queryHistory('bob');
+    expect(page.entries.map((e) => e.puzzleId)).toEqual(['daily-2026-01-02', 'daily-2026-01-01']);
+    expect(await store.exists('history:bob')).toBe(0);
+  });
+
+  it('deletes single entries and whole histories', async () => {
+    await addHistoryEntry('alice', entry('daily-2026-01-01'));
+    await addHistoryEntry('alice', entry('daily-2026-01-02'));
+
+    await deleteHistoryEntry('alice', 'daily-2026-01-01');
+    expect((await queryHistory('alice')).entries).toHaveLength(1);
+    expect(await clearHistory('alice')).toBe(1);
+    expect((await queryHistory('alice')).entries).toEqual([]);
+  });
+
+  it('pages through entries played in the same ms without skipping any', async () => {
+    const puzzleIds = ['practice-1', 'practice-2', 'practice-3', 'practice-4', 'practice-5'];
+    for (const puzzleId of puzzleIds) {
+      await addHistoryEntry('alice', entry(puzzleId, { mode: 'practice' }));
+      await store.zAdd('history:alice:time', { member: puzzleId, score: 1_000 });
+    }
+
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await queryHistory('alice', {}, 2, cursor);
+      seen.push(...page.entries.map((e) => e.puzzleId));
+      cursor = page.nextCursor;
+    } while (cursor);
+    expect(seen.sort()).toEqual(puzzleIds);
+  });
+
+  describe('concurrent writes', () => {
+    it('keeps every entry written in parallel', async () => {
+      const puzzleIds = Array.from({ length: 10 }, (_, i) => `practice-${i}`);
+      await Promise.all(
+        puzzleIds.map((puzzleId) => addHistoryEntry('alice', entry(puzzleId, { mode: 'practice' })))
+      );
+
+      const page = await queryHistory('alice', {}, 20);
+      expect(page.entries.map((e) => e.puzzleId).sort()).toEqual(puzzleIds.sort());
+    });
+
+    it('keeps the finished entry when a paused save races the solve', async () => {
+      await Promise.all([
+        addHistoryEntry('alice', entry('daily-2026-01-01', { score: 0, isInProgress: true })),
+        addHistoryEntry('alice', entry('daily-2026-01-01', { score: 650 })),
+        addHistoryEntry('alice', entry('daily-2026-01-01', { score: 0, isInProgress: true })),
+      ]);
+
+      const [stored] = await getHistoryEntries('alice', ['daily-2026-01-01']);
+      expect(stored?.score).toBe(650);
+    });
+  });
+});
@@ -0,0 +1,356 @@
+// Play history - one stored entry per user + puzzle, indexed by when it was played
+// Lets the history view page and filter server-side instead of loading every play.
+
+import { isGuestName } from '../core/auth';
+import { withLock } from '../core/lock';
+import { store } from '../core/store';
+import type { PlayHistoryEntry } from '../../shared/types/api';
+import { RETENTION } from '../config';
+
+const HISTORY_PREFIX = 'history:';
+/** Entries read per round-trip while filtering */
+const PAGE_SIZE = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAY_SECONDS = 24 * 60 * 60;
+/**
+ * Cross-user indexes of `<username>:<puzzleId>` scored by playedAt, so retention can
+ * find old paused and practice entries without listing users
+ */
+const IN_PROGRESS_INDEX_KEY = 'history-retention:in-progress';
+const PRACTICE_INDEX_KEY = 'history-retention:practice';
+/** Users cached as having no legacy history; the cache is dropped when it grows past this */
+const MAX_MIGRATED_CACHE = 10_000;
+
+/**
+ * Users this server instance has already seen without legacy history, so the
+ * history paths skip the legacy check after a user's first request
+ */
+const migratedUsers = new Set<string>();
+
+export interface HistoryFilters {
+  mode?: PlayHistoryEntry['mode'];
+  subreddit?: string;
+  /** Earliest play date, YYYY-MM-DD (UTC, inclusive) */
+  from?: string;
+  /** Latest play date, YYYY-MM-DD (UTC, inclusive) */
+  to?: string;
+  inProgressOnly?: boolean;
+}
+
+export interface HistoryPage {
+  /** Newest first */
+  entries: PlayHistoryEntry[];
+  /** Set when the page is full; pass back to continue after the last entry */
+  nextCursor?: string;
+}
+
+/** Hash of puzzle id -> entry JSON */
+function entriesKey(username: string): string {
+  return `${HISTORY_PREFIX}${username}:entries`;
+}
+
+/** Sorted set of puzzle ids scored by playedAt */
+function timeKey(username: string): string {
+  return `${HISTORY_PREFIX}${username}:time`;
+}
+
+/** Pre-index storage: one JSON array per user, newest first */
+function legacyKey(username: string): string {
+  return `${HISTORY_PREFIX}${username}`;
+}
+
+/** Serialises writers of one entry (e.g. two tabs saving and submitting the same puzzle) */
+function entryLock(username: string, puzzleId: string): string {
+  return `history:${username}:${puzzleId}`;
+}
+
+function normalizeSubreddit(subreddit: string): string {
+  return subreddit.toLowerCase().replace(/^r\//, '');
+}
+
+async function storeEntry(
+  username: string,
+  entry: PlayHistoryEntry,
+  playedAt: number
+): Promise<void> {
+  await store.hSet(entriesKey(username), {
+    [entry.puzzleId]: JSON.stringify({ ...entry, playedAt }),
+  });
+  await store.zAdd(timeKey(username), { member: entry.puzzleId, score: playedAt });
+  if (isGuestName(username)) {
+    // Guest history lapses as a whole once the guest stops playing
+    await store.expire(entriesKey(username), RETENTION.guestHistoryDays * DAY_SECONDS);
+    await store.expire(timeKey(username), RETENTION.guestHistoryDays * DAY_SECONDS);
+  } else {
+    await indexForRetention(username, entry, playedAt);
+  }
+}
+
+/** Paused entries expire first; finished practice entries later; finished dailies never */
+async function indexForRetention(
+  username: string,
+  entry: PlayHistoryEntry,
+  playedAt: number
+): Promise<void> {
+  const ref = `${username}:${entry.puzzleId}`;
+  const index = entry.isInProgress
+    ? IN_PROGRESS_INDEX_KEY
+    : entry.mode === 'practice'
+      ? PRACTICE_INDEX_KEY
+      : undefined;
+  for (const key of [IN_PROGRESS_INDEX_KEY, PRACTICE_INDEX_KEY]) {
+    if (key === index) {
+      await store.zAdd(key, { member: ref, score: playedAt });
+    } else {
+      await store.zRem(key, [ref]);
+    }
+  }
+}
+
+function markMigrated(username: string): void {
+  if (migratedUsers.size >= MAX_MIGRATED_CACHE) migratedUsers.clear();
+  migratedUsers.add(username);
+}
+
+/**
+ * One-time move of a user's legacy history array into per-entry storage.
+ * Legacy entries have no timestamp, so they are placed on their puzzle date,
+ * keeping their original order within a day. Returns the number of entries moved.
+ *
+ * The schema migration covers every user it can find on a leaderboard; user keys
+ * can't be listed, so practice-only players are still migrated on first access.
+ * Each server instance checks a user once; later calls return without a store read.
+ */
+export async function migrateLegacyHistory(username: string): Promise<number> {
+  if (migratedUsers.has(username)) return 0;
+  if ((await store.exists(legacyKey(username))) === 0) {
+    markMigrated(username);
+    return 0;
+  }
+
+  return withLock(`history:${username}:legacy`, async () => {
+    // Another request may have migrated it while this one waited
+    const json = await store.get(legacyKey(username));
+    if (!json) {
+      markMigrated(username);
+      return 0;
+    }
+
+    const legacy = JSON.parse(json) as PlayHistoryEntry[];
+    // Oldest first, so the newest entry for a puzzle is the one kept
+    for (let i = legacy.length - 1; i >= 0; i--) {
+      const entry = legacy[i];
+      if (!entry) continue;
+      const day = Date.parse(`${entry.date}T00:00:00Z`);
+      await storeEntry(username, entry, (Number.isFinite(day) ? day : 0) + (legacy.length - i));
+    }
+    await store.del(legacyKey(username));
+    markMigrated(username);
+    console.log(`Migrated ${legacy.length} history entries for ${username}`);
+    return legacy.length;
+  });
+}
+
+/**
+ * Record a play. Replaces any earlier entry for the same puzzle (e.g. a paused
+ * save followed by the finished solve) and moves it to the top. A paused save
+ * never replaces a finished entry, so a stale tab can't undo a solve.
+ */
+export async function addHistoryEntry(username: string, entry: PlayHistoryEntry): Promise<void> {
+  await migrateLegacyHistory(username);
+  await withLock(entryLock(username, entry.puzzleId), async () => {
+    if (entry.isInProgress) {
+      const current = await store.hGet(entriesKey(username), entry.puzzleId);
+      if (current && !(JSON.parse(current) as PlayHistoryEntry).isInProgress) return;
+    }
+    await storeEntry(username, entry, Date.now());
+  });
+}
+
+function matchesFilters(entry: PlayHistoryEntry, filters: HistoryFilters): boolean {
+  if (filters.mode && entry.mode !== filters.mode) return false;
+  if (
+    filters.subreddit &&
+    normalizeSubreddit(entry.subreddit) !== normalizeSubreddit(filters.subreddit)
+  ) {
+    return false;
+  }
+  if (filters.inProgressOnly && !entry.isInProgress) return false;
+  return true;
+}
+
+/**
+ * Page through a user's history, newest first. The date range is served by the
+ * time index; the remaining filters are applied while reading.
+ */
+export async function queryHistory(
+  username: string,
+  filters: HistoryFilters = {},
+  limit = 20,
+  cursor?: string
+): Promise<HistoryPage> {
+  await migrateLegacyHistory(username);
+
+  // The cursor is `<playedAt>:<puzzleId>` of the last entry served. Entries played in the
+  // same ms are ordered by puzzle id, so the range resumes at that ms (inclusive) and
+  // skips the ids already served.
+  const separator = cursor?.indexOf(':') ?? -1;
+  const cursorMs = cursor && separator > 0 ? Number(cursor.slice(0, separator)) : NaN;
+  const cursorId = cursor?.slice(separator + 1) ?? '';
+
+  // Score bounds for a reverse range: start is the upper bound (`to` is exclusive)
+  const fromMs = filters.from ? Date.parse(`${filters.from}T00:00:00Z`) : NaN;
+  const toMs = filters.to ? Date.parse(`${filters.to}T00:00:00Z`) + DAY_MS : NaN;
+  const resumeAt = Number.isFinite(cursorMs) && (!Number.isFinite(toMs) || cursorMs < toMs);
+  const max = resumeAt ? String(cursorMs) : Number.isFinite(toMs) ? `(${toMs}` : '+inf';
+  const min = Number.isFinite(fromMs) ? String(fromMs) : '-inf';
+  const served = (item: { member: string; score: number }) =>
+    resumeAt && item.score === cursorMs && item.member >= cursorId;
+
+  const entries: PlayHistoryEntry[] = [];
+  for (let offset = 0; entries.length < limit; offset += PAGE_SIZE) {
+    const page = await store.zRange(timeKey(username), max, min, {
+      by: 'score',
+      reverse: true,
+      limit: { offset, count: PAGE_SIZE },
+    });
+    if (page.length === 0) break;
+
+    const values = await store.hMGet(
+      entriesKey(username),
+      page.map((item) => item.member)
+    );
+    for (const [i, value] of values.entries()) {
+      const item = page[i];
+      if (!value || !item || served(item)) continue;
+      const entry: PlayHistoryEntry = { ...JSON.parse(value), playedAt: item.score };
+      if (!matchesFilters(entry, filters)) continue;
+      entries.push(entry);
+      if (entries.length >= limit) break;
+    }
+    if (page.length < PAGE_SIZE) break;
+  }
+
+  const last = entries[entries.length - 1];
+  return {
+    entries,
+    ...(entries.length >= limit && last?.playedAt !== undefined
+      ? { nextCursor: `${last.playedAt}:${last.puzzleId}` }
+      : {}),
+  };
+}
+
+/**
+ * A user's entries for specific puzzles, in the order given (null where never played)
+ */
+export async function getHistoryEntries(
+  username: string,
+  puzzleIds: string[]
+): Promise<(PlayHistoryEntry | null)[]> {
+  await migrateLegacyHistory(username);
+  if (puzzleIds.length === 0) return [];
+  const values = await store.hMGet(entriesKey(username), puzzleIds);
+  return values.map((value) => (value ? (JSON.parse(value) as PlayHistoryEntry) : null));
+}
+
+/**
+ * Remove one puzzle from a user's history
+ */
+export async function deleteHistoryEntry(username: string, puzzleId: string): Promise<void> {
+  await migrateLegacyHistory(username);
+  await withLock(entryLock(username, puzzleId), async () => {
+    await store.hDel(entriesKey(username), [puzzleId]);
+    await store.zRem(timeKey(username), [puzzleId]);
+    await store.zRem(IN_PROGRESS_INDEX_KEY, [`${username}:${puzzleId}`]);
+    await store.zRem(PRACTICE_INDEX_KEY, [`${username}:${puzzleId}`]);
+  });
+}
+
+/**
+ * Remove a user's whole history, including its retention index refs.
+ * Returns the number of entries removed.
+ */
+export async function clearHistory(username: string): Promise<number> {
+  await migrateLegacyHistory(username);
+  const puzzleIds = (await store.zRange(timeKey(username), 0, -1, { by: 'rank' })).map(
+    (item) => item.member
+  );
+  if (puzzleIds.length > 0) {
+    const refs = puzzleIds.map((puzzleId) => `${username}:${puzzleId}`);
+    await store.zRem(IN_PROGRESS_INDEX_KEY, refs);
+    await store.zRem(PRACTICE_INDEX_KEY, refs);
+  }
+  await store.del(entriesKey(username), timeKey(username), legacyKey(username));
+  return puzzleIds.length;
+}
+
+/**
+ * Add a user's existing paused and practice entries to the retention indexes
+ * (schema migration). Returns the number of entries read.
+ */
+export async function indexHistoryForRetention(username: string): Promise<number> {
+  await migrateLegacyHistory(username);
+  const entries = await store.hGetAll(entriesKey(username));
+  for (const json of Object.values(entries)) {
+    const entry = JSON.parse(json) as PlayHistoryEntry;
+    if (entry.playedAt !== undefined) await indexForRetention(username, entry, entry.playedAt);
+  }
+  return Object.keys(entries).length;
+}
+
+/**
+ * Delete up to `limit` indexed entries played before `cutoffMs`.
+ * Returns how many entries were removed and whether older refs remain.
+ */
+async function pruneIndexedEntries(
+  indexKey: string,
+  cutoffMs: number,
+  limit: number
+): Promise<{ removed: number; more: boolean }> {
+  const refs = await store.zRange(indexKey, '-inf', `(${cutoffMs}`, {
+    by: 'score',
+    limit: { offset: 0, count: limit },
+  });
+  let removed = 0;
+  for (const { member } of refs) {
+    const split = member.indexOf(':');
+    const username = member.slice(0, split);
+    const puzzleId = member.slice(split + 1);
+    await withLock(entryLock(username, puzzleId), async () => {
+      // Skip entries replayed since they were indexed (or already deleted)
+      const playedAt = await store.zScore(timeKey(username), puzzleId);
+      if (playedAt !== undefined && playedAt < cutoffMs) {
+        await store.hDel(entriesKey(username), [puzzleId]);
+        await store.zRem(timeKey(username), [puzzleId]);
+        removed++;
+      }
+    });
+  }
+  if (refs.length > 0) {
+    await store.zRem(
+      indexKey,
+      refs.map((ref) => ref.member)
+    );
+  }
+  return { removed, more: refs.length === limit };
+}
+
+/**
+ * Delete paused entries (and their saved puzzles) last played before `cutoffMs`
+ */
+export async function pruneInProgressHistory(
+  cutoffMs: number,
+  limit: number
+): Promise<{ removed: number; more: boolean }> {
+  return pruneIndexedEntries(IN_PROGRESS_INDEX_KEY, cutoffMs, limit);
+}
+
+/**
+ * Delete finished practice entries played before `cutoffMs`
+ */
+export async function prunePracticeHistory(
+  cutoffMs: number,
+  limit: number
+): Promise<{ removed: number; more: boolean }> {
+  return pruneIndexedEntries(PRACTICE_INDEX_KEY, cutoffMs, limit);
+}
@@ -0,0 +1,84 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { MemoryStore } from '../core/memory-store';
+import { setStore } from '../core/store';
+import {
+  addLeaderboardScore,
+  deleteArchiveBoard,
+  getLeaderboardEntry,
+  getLeaderboardPage,
+  getStaleArchiveBoards,
+  leaderboardBoardId,
+  type LeaderboardScore,
+} from './leaderboard';
+
+const PUZZLE = 'daily-2026-01-01';
+
+const entry = (username: string, score: number): LeaderboardScore => ({
+  username,
+  score,
+  time: 60,
+  hintsUsed: 0,
+  mistakes: 0,
+});
+
+describe('leaderboard', () => {
+  beforeEach(() => {
+    setStore(new MemoryStore());
+  });
+
+  it('ranks players by score, highest first', async () => {
+    await addLeaderboardScore(PUZZLE, entry('alice', 300));
+    await addLeaderboardScore(PUZZLE, entry('bob', 500));
+    const result = await addLeaderboardScore(PUZZLE, entry('carol', 400));
+
+    expect(result).toEqual({ rank: 2, totalPlayers: 3 });
+    const page = await getLeaderboardPage(PUZZLE, 1, 10);
+    expect(page.map((row) => [row.rank, row.username])).toEqual([
+      [1, 'bob'],
+      [2, 'carol'],
+      [3, 'alice'],
+    ]);
+  });
+
+  it("keeps each player's best score", async () => {
+    await addLeaderboardScore(PUZZLE, entry('alice', 300));
+    await addLeaderboardScore(PUZZLE, { ...entry('alice', 200), time: 5 });
+
+    const best = await getLeaderboardEntry(PUZZLE, 'alice');
+    expect(best?.score).toBe(300);
+    expect(best?.time).toBe(60);
+  });
+
+  it('keeps archive solves off the live board and ages archive boards', async () => {
+    const archiveId = leaderboardBoardId(PUZZLE, 'archive');
+    await addLeaderboardScore(archiveId, entry('alice', 300));
+
+    expect(await getLeaderboardEntry(PUZZLE, 'alice')).toBeNull();
+    expect(await getStaleArchiveBoards(Date.now() - 1000, 10)).toEqual([]);
+    expect(await getStaleArchiveBoards(Date.now() + 1000, 10)).toEqual([PUZZLE]);
+
+    await deleteArchiveBoard(PUZZLE);
+    expect(await getLeaderboardEntry(archiveId, 'alice')).toBeNull();
+    expect(await getStaleArchiveBoards(Date.now() + 1000, 10)).toEqual([]);
+  });
+
+  describe('concurrent submits', () => {
+    it('keeps every player', async () => {
+      const players = Array.from({ length: 10 }, (_, i) => `player${i}`);
+      await Promise.all(players.map((name, i) => addLeaderboardScore(PUZZLE, entry(name, i))));
+
+      const page = await getLeaderboardPage(PUZZLE, 1, 20);
+      expect(page.map((row) => row.username).sort()).toEqual(players.sort());
+    });
+
+    it("keeps a player's best score whatever order the submits land in", async () => {
+      await Promise.all(
+        [120, 480, 90, 300, 450].map((points) =>
+          addLeaderboardScore(PUZZLE, entry('alice', points))
+        )
+      );
+
+      expect((await getLeaderboardEntry(PUZZLE, 'alice'))?.score).toBe(480);
+    });
+  });
+});
@@ -0,0 +1,259 @@
+// Daily leaderboard service - one sorted set per puzzle, best score per user
+// Members are usernames scored by points; time/hints/mistakes live in a side hash,
+// so best-score updates and rank lookups are single calls. Solves made after a
+// puzzle's day go on a separate archive board (see leaderboardBoardId).
+
+import { withLock } from '../core/lock';
+import { store } from '../core/store';
+import type { LeaderboardBoard, LeaderboardEntry } from '../../shared/types/api';
+
+const LEADERBOARD_PREFIX = 'leaderboard:';
+const ARCHIVE_SUFFIX = ':archive';
+/**
+ * Sorted set of puzzle ids with an archive board, scored by the board's last write.
+ * Archive boards keep being written after their puzzle's date, so retention ages
+ * them by this instead of by date.
+ */
+const ARCHIVE_BOARDS_KEY = 'leaderboard:archive-boards';
+
+export interface LeaderboardScore {
+  username: string;
+  score: number;
+  time: number;
+  hintsUsed: number;
+  mistakes: number;
+}
+
+type ScoreDetails = Omit<LeaderboardScore, 'username' | 'score'>;
+
+/**
+ * Id the board functions below take for one of a puzzle's boards
+ */
+export function leaderboardBoardId(puzzleId: string, board: LeaderboardBoard): string {
+  return board === 'archive' ? `${puzzleId}${ARCHIVE_SUFFIX}` : puzzleId;
+}
+
+/** Sorted set of username -> best score */
+function scoresKey(puzzleId: string): string {
+  return `${LEADERBOARD_PREFIX}${puzzleId}:scores`;
+}
+
+/** Hash of username -> ScoreDetails JSON for the best score */
+function detailsKey(puzzleId: string): string {
+  return `${LEADERBOARD_PREFIX}${puzzleId}:details`;
+}
+
+/** Pre-split storage: sorted set whose members are whole entries as JSON */
+function legacyKey(puzzleId: string): string {
+  return `${LEADERBOARD_PREFIX}${puzzleId}`;
+}
+
+/**
+ * One-time conversion of a legacy JSON-member board, keeping each user's best entry
+ * (schema migration). Returns the number of legacy entries read.
+ */
+export async function migrateLegacyLeaderboard(puzzleId: string): Promise<number> {
+  if ((await store.exists(legacyKey(puzzleId))) === 0) return 0;
+
+  const legacy = await store.zRange(legacyKey(puzzleId), 0, -1, { by: 'rank' });
+  for (const { member } of legacy) {
+    try {
+      const parsed = JSON.parse(member) as Partial<LeaderboardScore>;
+      if (!parsed.username || typeof parsed.score !== 'number') continue;
+      await saveIfBest(puzzleId, {
+        username: parsed.username,
+        score: parsed.score,
+        time: parsed.time ?? 0,
+        hintsUsed: parsed.hintsUsed ?? 0,
+        mistakes: parsed.mistakes ?? 0,
+      });
+    } catch {
+      // Skip malformed entries
+    }
+  }
+  await store.del(legacyKey(puzzleId));
+  console.log(`Migrated ${legacy.length} leaderboard entries for ${puzzleId}`);
+  return legacy.length;
+}
+
+/** Compare-and-set under a per-entry lock, so a concurrent lower score can't win */
+async function saveIfBest(puzzleId: string, entry: LeaderboardScore): Promise<void> {
+  const { username, score, ...details } = entry;
+  await withLock(`leaderboard:${puzzleId}:${username}`, async () => {
+    const existing = await store.zScore(scoresKey(puzzleId), username);
+    if (existing !== undefined && existing >= score) return;
+
+    await store.zAdd(scoresKey(puzzleId), { member: username, score });
+    await store.hSet(detailsKey(puzzleId), { [username]: JSON.stringify(details) });
+  });
+}
+
+/**
+ * 1-indexed rank of a user on a board (highest score first), or undefined if absent
+ */
+export async function getLeaderboardRank(
+  puzzleId: string,
+  username: string
+): Promise<number | undefined> {
+  const zRank = await store.zRank(scoresKey(puzzleId), username);
+  if (zRank === undefined) return undefined;
+  // zRank is 0-indexed from lowest, we want rank from highest
+  return (await store.zCard(scoresKey(puzzleId))) - zRank;
+}
+
+/**
+ * Every username on a board
+ */
+export async function getLeaderboardUsernames(puzzleId: string): Promise<string[]> {
+  const members = await store.zRange(scoresKey(puzzleId), 0, -1, { by: 'rank' });
+  return members.map((m) => m.member);
+}
+
+/**
+ * Number of players on a board
+ */
+export async function getLeaderboardSize(puzzleId: string): Promise<number> {
+  return store.zCard(scoresKey(puzzleId));
+}
+
+/**
+ * Add a score to a puzzle's leaderboard, keeping only each user's best.
+ * Returns the user's 1-indexed rank and the number of players on the board.
+ */
+export async function addLeaderboardScore(
+  puzzleId: string,
+  entry: LeaderboardScore
+): Promise<{ rank?: number; totalPlayers?: number }> {
+  await saveIfBest(puzzleId, entry);
+  if (puzzleId.endsWith(ARCHIVE_SUFFIX)) {
+    await store.zAdd(ARCHIVE_BOARDS_KEY, {
+      member: puzzleId.slice(0, -ARCHIVE_SUFFIX.length),
+      score: Date.now(),
+    });
+  }
+
+  const rank = await getLeaderboardRank(puzzleId, entry.username);
+  const totalPlayers = await store.zCard(scoresKey(puzzleId));
+  return {
+    ...(rank !== undefined ? { rank } : {}),
+    totalPlayers,
+  };
+}
+
+/**
+ * Entries at 0-indexed positions `start`..`stop` (inclusive, highest score first)
+ */
+async function getEntriesByPosition(
+  puzzleId: string,
+  start: number,
+  stop: number
+): Promise<LeaderboardEntry[]> {
+  const members = await store.zRange(scoresKey(puzzleId), start, stop, {
+    by: 'rank',
+    reverse: true,
+  });
+  if (members.length === 0) return [];
+
+  const details = await store.hMGet(
+    detailsKey(puzzleId),
+    members.map((m) => m.member)
+  );
+  return members.map(({ member, score }, i) => {
+    const detail: Partial<ScoreDetails> = JSON.parse(details[i] ?? '{}');
+    return {
+      rank: start + i + 1,
+      username: member,
+      score,
+      time: detail.time ?? 0,
+      hintsUsed: detail.hintsUsed ?? 0,
+      ...(detail.mistakes !== undefined ? { mistakes: detail.mistakes } : {}),
+    };
+  });
+}
+
+/**
+ * One user's entry with rank, or null if they are not on the board
+ */
+export async function getLeaderboardEntry(
+  puzzleId: string,
+  username: string
+): Promise<LeaderboardEntry | null> {
+  const rank = await getLeaderboardRank(puzzleId, username);
+  if (rank === undefined) return null;
+  const [entry] = await getEntriesByPosition(puzzleId, rank - 1, rank - 1);
+  return entry ?? null;
+}
+
+/**
+ * Page `page` (1-indexed) of a board, `pageSize` entries per page
+ */
+export async function getLeaderboardPage(
+  puzzleId: string,
+  page: number,
+  pageSize: number
+): Promise<LeaderboardEntry[]> {
+  const start = (page - 1) * pageSize;
+  return getEntriesByPosition(puzzleId, start, start + pageSize - 1);
+}
+
+/**
+ * `pageSize` entries centred on a user's rank (clamped to the top of the board).
+ * Returns null if the user is not on the board.
+ */
+export async function getLeaderboardAroundUser(
+  puzzleId: string,
+  username: string,
+  pageSize: number
+): Promise<LeaderboardEntry[] | null> {
+  const rank = await getLeaderboardRank(puzzleId, username);
+  if (rank === undefined) return null;
+  const start = Math.max(0, rank - 1 - Math.floor(pageSize / 2));
+  return getEntriesByPosition(puzzleId, start, start + pageSize - 1);
+}
+
+/**
+ * Delete a puzzle's live board, including any unmigrated legacy set, leaving its
+ * archive board (retention cleanup)
+ */
+export async function deleteLeaderboard(puzzleId: string): Promise<void> {
+  await store.del(scoresKey(puzzleId), detailsKey(puzzleId), legacyKey(puzzleId));
+}
+
+/**
+ * Puzzle ids whose archive board was last written before `cutoffMs`, oldest first
+ */
+export async function getStaleArchiveBoards(cutoffMs: number, limit: number): Promise<string[]> {
+  const boards = await store.zRange(ARCHIVE_BOARDS_KEY, '-inf', `(${cutoffMs}`, {
+    by: 'score',
+    limit: { offset: 0, count: limit },
+  });
+  return boards.map((board) => board.member);
+}
+
+/**
+ * Delete a puzzle's archive board, leaving its live board (retention cleanup)
+ */
+export async function deleteArchiveBoard(puzzleId: string): Promise<void> {
+  const archiveId = leaderboardBoardId(puzzleId, 'archive');
+  await store.del(scoresKey(archiveId), detailsKey(archiveId));
+  await store.zRem(ARCHIVE_BOARDS_KEY, [puzzleId]);
+}
+
+/**
+ * Add an existing archive board to the retention index as written now (schema
+ * migration). Returns false if the puzzle has no archive board.
+ */
+export async function indexArchiveBoard(puzzleId: string): Promise<boolean> {
+  if ((await store.zCard(scoresKey(leaderboardBoardId(puzzleId, 'archive')))) === 0) return false;
+  await store.zAdd(ARCHIVE_BOARDS_KEY, { member: puzzleId, score: Date.now() });
+  return true;
+}
+
+/**
+ * Remove one user from a board
+ */
+export async function removeLeaderboardEntry(puzzleId: string, username: string): Promise<boolean> {
+  const removed = await store.zRem(scoresKey(puzzleId), [username]);
+  await store.hDel(detailsKey(puzzleId), [username]);
+  return removed > 0;
+}
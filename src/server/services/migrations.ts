@@ -0,0 +1,229 @@
+// Schema migrations - ordered, versioned reshaping of stored data
+// Each migration runs once; `schema:version` records the last one applied and
+// `schema:log` keeps an audit entry per run. Run from the onAppUpgrade trigger
+// and the moderator menu.
+
+import { acquireLock, releaseLock } from '../core/lock';
+import { store } from '../core/store';
+import { getReviewQueue } from './anti-cheat';
+import { indexHistoryForRetention, migrateLegacyHistory } from './history';
+import {
+  getLeaderboardUsernames,
+  indexArchiveBoard,
+  leaderboardBoardId,
+  migrateLegacyLeaderboard,
+} from './leaderboard';
+import { importLegacyLibrary, importLegacyUsedPosts } from './post-database';
+import { getDatesSinceLaunch, importLegacyDailyPuzzles } from './puzzle';
+import { indexPlayedPuzzle } from './session';
+
+const SCHEMA_VERSION_KEY = 'schema:version';
+/** Hash of version -> MigrationLogEntry JSON (latest run of that version) */
+const SCHEMA_LOG_KEY = 'schema:log';
+const SCHEMA_LOCK = 'schema';
+/** A crashed run releases the lock after this long */
+const LOCK_TTL_MS = 10 * 60 * 1000;
+
+interface Migration {
+  version: number;
+  name: string;
+  /** Returns a short summary for the log */
+  up: () => Promise<string>;
+}
+
+export interface MigrationLogEntry {
+  version: number;
+  name: string;
+  /** What started the run, e.g. 'upgrade' or 'menu' */
+  trigger: string;
+  startedAt: number;
+  durationMs: number;
+  result?: string;
+  error?: string;
+}
+
+export interface MigrationRunResult {
+  fromVersion: number;
+  toVersion: number;
+  latestVersion: number;
+  applied: MigrationLogEntry[];
+  /** Set when a migration failed; later migrations were not attempted */
+  error?: string;
+  /** True if another run held the lock, so nothing was attempted */
+  locked?: boolean;
+}
+
+const dailyPuzzleIds = (): string[] => getDatesSinceLaunch().map((date) => `daily-${date}`);
+
+/** Everyone on any daily leaderboard */
+async function dailyPlayerUsernames(): Promise<Set<string>> {
+  const usernames = new Set<string>();
+  for (const puzzleId of dailyPuzzleIds()) {
+    for (const username of await getLeaderboardUsernames(puzzleId)) usernames.add(username);
+  }
+  return usernames;
+}
+
+/** In version order; append only - never renumber or edit a shipped migration */
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'post-library-indexes',
+    up: async () => `imported ${await importLegacyLibrary()} posts from postcipher:posts:all`,
+  },
+  {
+    version: 2,
+    name: 'daily-used-window',
+    up: async () => `imported ${await importLegacyUsedPosts()} used daily posts`,
+  },
+  {
+    version: 3,
+    name: 'puzzle-registry',
+    up: async () => `registered ${await importLegacyDailyPuzzles()} cached daily puzzles`,
+  },
+  {
+    version: 4,
+    name: 'leaderboard-details',
+    up: async () => {
+      let entries = 0;
+      for (const puzzleId of dailyPuzzleIds()) {
+        entries += await migrateLegacyLeaderboard(puzzleId);
+      }
+      return `converted ${entries} leaderboard entries`;
+    },
+  },
+  {
+    version: 5,
+    name: 'history-entries',
+    up: async () => {
+      // Players are only discoverable through leaderboards; anyone else is migrated on access
+      const usernames = await dailyPlayerUsernames();
+      let entries = 0;
+      for (const username of usernames) {
+        entries += await migrateLegacyHistory(username);
+      }
+      return `moved ${entries} history entries for ${usernames.size} players`;
+    },
+  },
+  {
+    version: 6,
+    name: 'history-retention-index',
+    up: async () => {
+      // Same reach as history-entries; unreached players' old entries are simply kept
+      const usernames = await dailyPlayerUsernames();
+      let entries = 0;
+      for (const username of usernames) {
+        entries += await indexHistoryForRetention(username);
+      }
+      return `indexed ${entries} history entries for ${usernames.size} players`;
+    },
+  },
+  {
+    version: 7,
+    name: 'archive-board-index',
+    up: async () => {
+      // Existing boards age from now; their true last write isn't recorded
+      let boards = 0;
+      for (const puzzleId of dailyPuzzleIds()) {
+        if (await indexArchiveBoard(puzzleId)) boards++;
+      }
+      return `indexed ${boards} archive boards`;
+    },
+  },
+  {
+    version: 8,
+    name: 'played-puzzle-index',
+    up: async () => {
+      // Board entries and held scores stand in for the sessions that have since lapsed;
+      // history is read directly by data export, so it needs no backfill
+      let refs = 0;
+      for (const puzzleId of dailyPuzzleIds()) {
+        for (const boardId of [puzzleId, leaderboardBoardId(puzzleId, 'archive')]) {
+          for (const username of await getLeaderboardUsernames(boardId)) {
+            await indexPlayedPuzzle(username, puzzleId);
+            refs++;
+          }
+        }
+      }
+      const { items } = await getReviewQueue(Number.MAX_SAFE_INTEGER);
+      for (const { score } of items) {
+        await indexPlayedPuzzle(score.username, score.puzzleId);
+        refs++;
+      }
+      return `indexed ${refs} played puzzles`;
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1]?.version ?? 0;
+
+/**
+ * Version of the last migration applied (0 = none)
+ */
+export async function getSchemaVersion(): Promise<number> {
+  const version = await store.get(SCHEMA_VERSION_KEY);
+  return version ? parseInt(version, 10) : 0;
+}
+
+/**
+ * Audit log, one entry per migration version (latest attempt), oldest first
+ */
+export async function getMigrationLog(): Promise<MigrationLogEntry[]> {
+  const log = await store.hGetAll(SCHEMA_LOG_KEY);
+  return Object.values(log)
+    .map((json) => JSON.parse(json) as MigrationLogEntry)
+    .sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Apply every migration newer than the stored schema version, in order.
+ * Stops at the first failure so a later migration never runs on unmigrated data.
+ */
+export async function runMigrations(trigger: string): Promise<MigrationRunResult> {
+  const fromVersion = await getSchemaVersion();
+  const result: MigrationRunResult = {
+    fromVersion,
+    toVersion: fromVersion,
+    latestVersion: LATEST_SCHEMA_VERSION,
+    applied: [],
+  };
+  if (fromVersion >= LATEST_SCHEMA_VERSION) return result;
+
+  const lockToken = await acquireLock(SCHEMA_LOCK, LOCK_TTL_MS);
+  if (!lockToken) return { ...result, locked: true };
+
+  try {
+    for (const migration of MIGRATIONS) {
+      if (migration.version <= result.toVersion) continue;
+
+      const startedAt = Date.now();
+      const entry: MigrationLogEntry = {
+        version: migration.version,
+        name: migration.name,
+        trigger,
+        startedAt,
+        durationMs: 0,
+      };
+      try {
+        entry.result = await migration.up();
+      } catch (error) {
+        entry.error = error instanceof Error ? error.message : String(error);
+      }
+      entry.durationMs = Date.now() - startedAt;
+      await store.hSet(SCHEMA_LOG_KEY, { [String(migration.version)]: JSON.stringify(entry) });
+      result.applied.push(entry);
+
+      if (entry.error) {
+        console.error(`Migration ${migration.version} (${migration.name}) failed: ${entry.error}`);
+        result.error = `${migration.name}: ${entry.error}`;
+        break;
+      }
+      await store.set(SCHEMA_VERSION_KEY, String(migration.version));
+      result.toVersion = migration.version;
+      console.log(`Migration ${migration.version} (${migration.name}): ${entry.result}`);
+    }
+  } finally {
+    await releaseLock(SCHEMA_LOCK, lockToken);
+  }
+  return result;
+}
@@ -0,0 +1,38 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { RedditPost } from '../../shared/types/puzzle';
+import { MemoryStore } from '../core/memory-store';
+import { setStore, store } from '../core/store';
+import { getPostById, initializePostDatabase, syncRedditPostsToLibrary } from './post-database';
+
+const SUBREDDIT = 'cryptotesting';
+
+const post = (id: string, upvotes: number): RedditPost => ({
+  id,
+  title: 'The quick brown fox jumps over the lazy dog',
+  subreddit: SUBREDDIT,
+  author: 'someone',
+  upvotes,
+  permalink: `/r/${SUBREDDIT}/comments/${id}`,
+  createdUtc: 1_700_000_000,
+});
+
+describe('post database', () => {
+  beforeEach(async () => {
+    setStore(new MemoryStore());
+    await initializePostDatabase();
+  });
+
+  describe('concurrent syncs', () => {
+    it('indexes a post in both syncs once, keeping the higher upvote count', async () => {
+      const added = await Promise.all([
+        syncRedditPostsToLibrary([post('t3_shared', 10), post('t3_first', 5)]),
+        syncRedditPostsToLibrary([post('t3_shared', 50)]),
+      ]);
+
+      expect(added[0] + added[1]).toBe(2);
+      expect((await getPostById('t3_shared'))?.upvotes).toBe(50);
+      expect(await store.zScore('postcipher:idx:subreddits', SUBREDDIT)).toBe(2);
+      expect(await store.zCard(`postcipher:idx:sub:${SUBREDDIT}`)).toBe(2);
+    });
+  });
+});
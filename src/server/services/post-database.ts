@@ -1,9 +1,11 @@
 // Post database system for deterministic daily puzzle selection
 // Uses real Reddit posts - curated fallback library + posts pulled via Devvit API
 
-import { redis } from '@devvit/web/server';
+import { withLock } from '../core/lock';
+import { store } from '../core/store';
 import { getDifficulty, isCipherFriendly } from '../../shared/cryptogram/cipher-fit';
-import type { RedditPost } from '../../shared/types/puzzle';
+import type { PuzzleDifficulty, RedditPost } from '../../shared/types/puzzle';
+import { DAILY_POSTS } from '../config';
 import { getAllCuratedPosts } from './puzzle-library';
 
 /** Whether a post is a good fit for substitution cipher (stored or computed from title) */
@@ -11,39 +13,219 @@ function postIsCipherFriendly(post: RedditPost): boolean {
   return post.cipherFriendly ?? isCipherFriendly(post.title);
 }
 
-const POST_DB_KEY = 'postcipher:posts:all';
-const POST_COUNT_KEY = 'postcipher:posts:count';
-const DAILY_USED_POSTS_KEY = 'postcipher:daily:used';
+// Storage layout: one hash per post plus sorted-set indexes, so selection, upserts
+// and trimming touch only the posts involved instead of the whole library.
+// Index members scored 0 are ordered by post id, giving stable rank-based selection.
+const POST_KEY_PREFIX = 'postcipher:post:';
+const INDEX_PREFIX = 'postcipher:idx:';
+/** Every post id (score 0) - rank order is id order */
+const ID_INDEX_KEY = `${INDEX_PREFIX}id`;
+/** Every post id scored by upvotes - used for trimming and top-post listings */
+const UPVOTES_INDEX_KEY = `${INDEX_PREFIX}upvotes`;
+/** Cipher-friendly post ids (score 0) */
+const FRIENDLY_INDEX_KEY = `${INDEX_PREFIX}friendly`;
+/** Normalized subreddit name -> number of posts, to enumerate per-subreddit indexes */
+const SUBREDDITS_KEY = `${INDEX_PREFIX}subreddits`;
+/** Post id -> date (ms, UTC midnight) of the last daily puzzle it was used for */
+const DAILY_LAST_USED_KEY = 'postcipher:daily:last-used';
+
+/** Pre-index storage: the whole library as one JSON array (imported once, then removed) */
+const LEGACY_POST_DB_KEY = 'postcipher:posts:all';
+const LEGACY_POST_COUNT_KEY = 'postcipher:posts:count';
+/** Pre-window daily tracking: JSON array of used post ids (imported once, then removed) */
+const LEGACY_DAILY_USED_KEY = 'postcipher:daily:used';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DIFFICULTIES: PuzzleDifficulty[] = ['easy', 'medium', 'hard'];
+/** Ids read per round-trip when walking an index */
+const INDEX_PAGE_SIZE = 100;
+/** Entries per round-trip for score-range reads */
+const SCORE_PAGE_SIZE = 1000;
 
 /** Max posts to keep in library (Redis handles 10k+ efficiently) */
 export const MAX_DB_SIZE = 10000;
 
+function postKey(id: string): string {
+  return `${POST_KEY_PREFIX}${id}`;
+}
+
+function normalizeSubreddit(subreddit: string): string {
+  return subreddit.toLowerCase().replace(/^r\//, '');
+}
+
+function subredditIndexKey(subreddit: string, cipherFriendlyOnly = false): string {
+  return `${INDEX_PREFIX}sub:${normalizeSubreddit(subreddit)}${cipherFriendlyOnly ? ':friendly' : ''}`;
+}
+
+function difficultyIndexKey(difficulty: PuzzleDifficulty): string {
+  return `${INDEX_PREFIX}difficulty:${difficulty}`;
+}
+
+/** Fill in the derived attributes every stored post carries */
+function withLibraryAttrs(post: RedditPost): RedditPost {
+  return {
+    ...post,
+    cipherFriendly: post.cipherFriendly ?? isCipherFriendly(post.title),
+    difficulty: post.difficulty ?? getDifficulty(post.title),
+    permalink: ensureValidPermalink(post),
+  };
+}
+
+function postToHash(post: RedditPost): Record<string, string> {
+  return {
+    id: post.id,
+    title: post.title,
+    subreddit: post.subreddit,
+    author: post.author,
+    upvotes: post.upvotes.toString(),
+    permalink: post.permalink,
+    createdUtc: post.createdUtc.toString(),
+    cipherFriendly: postIsCipherFriendly(post) ? '1' : '0',
+    difficulty: post.difficulty ?? getDifficulty(post.title),
+  };
+}
+
+function hashToPost(hash: Record<string, string>): RedditPost | null {
+  if (!hash.id) return null;
+  const difficulty = DIFFICULTIES.find((d) => d === hash.difficulty);
+  return {
+    id: hash.id,
+    title: hash.title ?? '',
+    subreddit: hash.subreddit ?? '',
+    author: hash.author ?? '',
+    upvotes: Number(hash.upvotes ?? 0),
+    permalink: hash.permalink ?? '',
+    createdUtc: Number(hash.createdUtc ?? 0),
+    cipherFriendly: hash.cipherFriendly === '1',
+    ...(difficulty ? { difficulty } : {}),
+  };
+}
+
+async function readPost(id: string): Promise<RedditPost | null> {
+  return hashToPost(await store.hGetAll(postKey(id)));
+}
+
+/** Add a stored post to every index it belongs in */
+async function indexPost(post: RedditPost): Promise<void> {
+  const member = post.id;
+  const sub = normalizeSubreddit(post.subreddit);
+  await store.zAdd(ID_INDEX_KEY, { member, score: 0 });
+  await store.zAdd(UPVOTES_INDEX_KEY, { member, score: post.upvotes });
+  await store.zAdd(subredditIndexKey(sub), { member, score: 0 });
+  await store.zAdd(difficultyIndexKey(post.difficulty ?? getDifficulty(post.title)), {
+    member,
+    score: 0,
+  });
+  if (postIsCipherFriendly(post)) {
+    await store.zAdd(FRIENDLY_INDEX_KEY, { member, score: 0 });
+    await store.zAdd(subredditIndexKey(sub, true), { member, score: 0 });
+  }
+  await store.zIncrBy(SUBREDDITS_KEY, sub, 1);
+}
+
+/** Remove a stored post from every index it was added to */
+async function unindexPost(post: RedditPost): Promise<void> {
+  const members = [post.id];
+  const sub = normalizeSubreddit(post.subreddit);
+  await store.zRem(ID_INDEX_KEY, members);
+  await store.zRem(UPVOTES_INDEX_KEY, members);
+  await store.zRem(FRIENDLY_INDEX_KEY, members);
+  await store.zRem(subredditIndexKey(sub), members);
+  await store.zRem(subredditIndexKey(sub, true), members);
+  await store.zRem(difficultyIndexKey(post.difficulty ?? getDifficulty(post.title)), members);
+  const remaining = await store.zIncrBy(SUBREDDITS_KEY, sub, -1);
+  if (remaining <= 0) await store.zRem(SUBREDDITS_KEY, [sub]);
+}
+
+/**
+ * Lock name for one post. Upserts and removals read the stored post to know which
+ * indexes to update, so overlapping syncs must not interleave on the same post.
+ */
+function postLock(id: string): string {
+  return `library:post:${id}`;
+}
+
+/**
+ * Insert or update one post. Updates keep the higher upvote count.
+ * Returns true if the post was not in the library before.
+ */
+async function upsertPost(post: RedditPost): Promise<boolean> {
+  const incoming = withLibraryAttrs(post);
+  return withLock(postLock(incoming.id), async () => {
+    const existing = await readPost(incoming.id);
+    const stored = existing
+      ? { ...incoming, upvotes: Math.max(existing.upvotes, incoming.upvotes) }
+      : incoming;
+
+    if (existing) await unindexPost(existing);
+    await store.hSet(postKey(stored.id), postToHash(stored));
+    await indexPost(stored);
+    return !existing;
+  });
+}
+
+async function removePost(id: string): Promise<void> {
+  await withLock(postLock(id), async () => {
+    const post = await readPost(id);
+    if (post) await unindexPost(post);
+    else {
+      await store.zRem(ID_INDEX_KEY, [id]);
+      await store.zRem(UPVOTES_INDEX_KEY, [id]);
+    }
+    await store.del(postKey(id));
+  });
+}
+
+/**
+ * Drop the lowest-upvoted posts until the library fits `maxSize`
+ */
+async function trimLibrary(maxSize: number): Promise<number> {
+  const excess = (await store.zCard(ID_INDEX_KEY)) - maxSize;
+  if (excess <= 0) return 0;
+  const victims = await store.zRange(UPVOTES_INDEX_KEY, 0, excess - 1, { by: 'rank' });
+  for (const { member } of victims) {
+    await removePost(member);
+  }
+  return victims.length;
+}
+
+/**
+ * One-time import of the pre-index JSON library (schema migration). Returns the
+ * number of posts imported, or 0 if there is no legacy library.
+ */
+export async function importLegacyLibrary(): Promise<number> {
+  const legacyJson = await store.get(LEGACY_POST_DB_KEY);
+  if (!legacyJson) return 0;
+
+  const posts = JSON.parse(legacyJson) as RedditPost[];
+  for (const post of posts) {
+    await upsertPost(post);
+  }
+  await store.del(LEGACY_POST_DB_KEY, LEGACY_POST_COUNT_KEY);
+  console.log(`Imported ${posts.length} posts from legacy library blob`);
+  return posts.length;
+}
+
 /**
  * Initialize the post database in Redis with curated real posts
  * These are actual Reddit posts with valid IDs and permalinks
  */
 export async function initializePostDatabase(): Promise<void> {
   try {
-    const existing = await redis.get(POST_COUNT_KEY);
-    if (existing) {
+    const existing = await store.zCard(ID_INDEX_KEY);
+    if (existing > 0) {
       // Database already initialized
       return;
     }
 
-    // Seed with curated real Reddit posts
+    // Seed with curated real Reddit posts (attributes are filled in on upsert)
     const curatedPosts = getAllCuratedPosts();
-    
-    // Ensure all posts have cipher-friendly and difficulty attributes
-    const posts: RedditPost[] = curatedPosts.map((post) => ({
-      ...post,
-      cipherFriendly: post.cipherFriendly ?? isCipherFriendly(post.title),
-      difficulty: post.difficulty ?? getDifficulty(post.title),
-    }));
-
-    await redis.set(POST_DB_KEY, JSON.stringify(posts));
-    await redis.set(POST_COUNT_KEY, posts.length.toString());
-
-    console.log(`Initialized post database with ${posts.length} curated real posts`);
+    for (const post of curatedPosts) {
+      await upsertPost(post);
+    }
+
+    console.log(`Initialized post database with ${curatedPosts.length} curated real posts`);
   } catch (error) {
     // If no context, initialization will happen on first request
     if (error instanceof Error && error.message.includes('No context')) {
@@ -55,16 +237,37 @@ export async function initializePostDatabase(): Promise<void> {
 }
 
 /**
- * Add a new post to the database
+ * Add a new post to the database (or update it if already present)
  */
 export async function addPostToDatabase(post: RedditPost): Promise<void> {
-  const existingJson = await redis.get(POST_DB_KEY);
-  const posts: RedditPost[] = existingJson ? JSON.parse(existingJson) : [];
-  
-  posts.push(post);
-  
-  await redis.set(POST_DB_KEY, JSON.stringify(posts));
-  await redis.set(POST_COUNT_KEY, posts.length.toString());
+  await upsertPost(post);
+}
+
+/**
+ * Delete every post and index (admin: reset library). Daily used-post tracking is separate.
+ */
+export async function clearLibrary(): Promise<void> {
+  for (;;) {
+    const page = await store.zRange(ID_INDEX_KEY, 0, INDEX_PAGE_SIZE - 1, { by: 'rank' });
+    if (page.length === 0) break;
+    const ids = page.map((entry) => entry.member);
+    await store.del(...ids.map(postKey));
+    await store.zRem(ID_INDEX_KEY, ids);
+  }
+
+  const subreddits = await store.zRange(SUBREDDITS_KEY, 0, -1, { by: 'rank' });
+  await store.del(
+    UPVOTES_INDEX_KEY,
+    FRIENDLY_INDEX_KEY,
+    SUBREDDITS_KEY,
+    LEGACY_POST_DB_KEY,
+    LEGACY_POST_COUNT_KEY,
+    ...subreddits.flatMap(({ member }) => [
+      subredditIndexKey(member),
+      subredditIndexKey(member, true),
+    ]),
+    ...DIFFICULTIES.map(difficultyIndexKey)
+  );
 }
 
 /**
@@ -105,50 +308,15 @@ export async function syncRedditPostsToLibrary(
 ): Promise<number> {
   await initializePostDatabase();
 
-  const existingJson = await redis.get(POST_DB_KEY);
-  const existingPosts: RedditPost[] = existingJson ? JSON.parse(existingJson) : [];
-
-  const existingPostMap = new Map<string, RedditPost>();
-  existingPosts.forEach((post) => existingPostMap.set(post.id, post));
-
   let newPostsAdded = 0;
-
   for (const newPost of newPosts) {
-    const withAttrs = {
-      ...newPost,
-      cipherFriendly: newPost.cipherFriendly ?? isCipherFriendly(newPost.title),
-      difficulty: newPost.difficulty ?? getDifficulty(newPost.title),
-      permalink: ensureValidPermalink(newPost),
-    };
-    if (existingPostMap.has(newPost.id)) {
-      const index = existingPosts.findIndex((p) => p.id === newPost.id);
-      if (index !== -1) {
-        existingPosts[index] = {
-          ...withAttrs,
-          upvotes: Math.max(existingPosts[index].upvotes, newPost.upvotes),
-        };
-      }
-    } else {
-      existingPosts.push(withAttrs);
-      newPostsAdded++;
-    }
-  }
-
-  // Backfill cipherFriendly/difficulty/permalink for existing posts
-  for (const post of existingPosts) {
-    if (post.cipherFriendly === undefined) (post as RedditPost).cipherFriendly = isCipherFriendly(post.title);
-    if (post.difficulty === undefined) (post as RedditPost).difficulty = getDifficulty(post.title);
-    // Fix permalinks for existing posts
-    (post as RedditPost).permalink = ensureValidPermalink(post);
+    if (await upsertPost(newPost)) newPostsAdded++;
   }
 
-  existingPosts.sort((a, b) => b.upvotes - a.upvotes);
-  const trimmedPosts = existingPosts.slice(0, maxSize);
-
-  await redis.set(POST_DB_KEY, JSON.stringify(trimmedPosts));
-  await redis.set(POST_COUNT_KEY, trimmedPosts.length.toString());
+  await trimLibrary(maxSize);
+  const total = await store.zCard(ID_INDEX_KEY);
 
-  console.log(`Synced ${newPosts.length} posts: ${newPostsAdded} new, ${trimmedPosts.length} total in library`);
+  console.log(`Synced ${newPosts.length} posts: ${newPostsAdded} new, ${total} total in library`);
   return newPostsAdded;
 }
 
@@ -157,68 +325,161 @@ export async function syncRedditPostsToLibrary(
  * Call this to repair posts that were saved with bad/missing permalinks
  */
 export async function repairLibraryPermalinks(): Promise<number> {
-  const existingJson = await redis.get(POST_DB_KEY);
-  if (!existingJson) return 0;
-
-  const posts: RedditPost[] = JSON.parse(existingJson);
   let fixedCount = 0;
 
-  for (const post of posts) {
-    const oldPermalink = post.permalink;
-    const newPermalink = ensureValidPermalink(post);
-    if (oldPermalink !== newPermalink) {
-      post.permalink = newPermalink;
-      fixedCount++;
+  for (let start = 0; ; start += INDEX_PAGE_SIZE) {
+    const page = await store.zRange(ID_INDEX_KEY, start, start + INDEX_PAGE_SIZE - 1, {
+      by: 'rank',
+    });
+    if (page.length === 0) break;
+
+    for (const { member } of page) {
+      const post = await readPost(member);
+      if (!post) continue;
+      const newPermalink = ensureValidPermalink(post);
+      if (post.permalink !== newPermalink) {
+        await store.hSet(postKey(post.id), { permalink: newPermalink });
+        fixedCount++;
+      }
     }
   }
 
   if (fixedCount > 0) {
-    await redis.set(POST_DB_KEY, JSON.stringify(posts));
     console.log(`Fixed permalinks for ${fixedCount} posts`);
   }
 
   return fixedCount;
 }
 
+/** UTC midnight (ms) of the puzzle date a Date falls on */
+function puzzleDateMs(date: Date): number {
+  return new Date(`${date.toISOString().split('T')[0]}T00:00:00Z`).getTime();
+}
+
+/**
+ * One-time import of the pre-window used-post list (schema migration). Those entries
+ * carry no dates, so they are stamped with today and stay excluded for one full window;
+ * posts already tracked with a date keep it. Returns the number imported.
+ */
+export async function importLegacyUsedPosts(): Promise<number> {
+  const usedJson = await store.get(LEGACY_DAILY_USED_KEY);
+  if (!usedJson) return 0;
+
+  const ids = JSON.parse(usedJson) as string[];
+  const score = puzzleDateMs(new Date());
+  let imported = 0;
+  for (const member of ids) {
+    if ((await store.zScore(DAILY_LAST_USED_KEY, member)) !== undefined) continue;
+    await store.zAdd(DAILY_LAST_USED_KEY, { member, score });
+    imported++;
+  }
+  await store.del(LEGACY_DAILY_USED_KEY);
+  console.log(`Imported ${imported} used daily posts from legacy tracking`);
+  return imported;
+}
+
 /**
- * Get set of post IDs that have been used for daily puzzles
+ * Get IDs of posts used for a daily puzzle inside the no-repeat window before `date`
  */
-async function getUsedDailyPostIds(): Promise<Set<string>> {
-  const usedJson = await redis.get(DAILY_USED_POSTS_KEY);
-  if (!usedJson) return new Set();
-  return new Set(JSON.parse(usedJson) as string[]);
+async function getRecentlyUsedPostIds(date: Date): Promise<Set<string>> {
+  const cutoff = puzzleDateMs(date) - DAILY_POSTS.noRepeatWindowDays * DAY_MS;
+  const recentIds = new Set<string>();
+  // Score ranges come back at most one page at a time
+  for (let offset = 0; ; offset += SCORE_PAGE_SIZE) {
+    const page = await store.zRange(DAILY_LAST_USED_KEY, `(${cutoff}`, '+inf', {
+      by: 'score',
+      limit: { offset, count: SCORE_PAGE_SIZE },
+    });
+    for (const { member } of page) recentIds.add(member);
+    if (page.length < SCORE_PAGE_SIZE) break;
+  }
+  return recentIds;
 }
 
 /**
- * Mark a post as used for daily puzzle
+ * Record that a post was used for the daily puzzle of `date`
  */
-async function markPostAsUsedForDaily(postId: string): Promise<void> {
-  const usedIds = await getUsedDailyPostIds();
-  usedIds.add(postId);
-  await redis.set(DAILY_USED_POSTS_KEY, JSON.stringify(Array.from(usedIds)));
+export async function markPostAsUsedForDaily(postId: string, date: Date): Promise<void> {
+  await store.zAdd(DAILY_LAST_USED_KEY, { member: postId, score: puzzleDateMs(date) });
 }
 
 /**
- * Reset used posts tracking (e.g. after ~1 year or when running low on unused posts)
+ * Reset used posts tracking so every post is eligible again (admin)
  */
 export async function resetUsedDailyPosts(): Promise<void> {
-  await redis.del(DAILY_USED_POSTS_KEY);
+  await store.del(DAILY_LAST_USED_KEY, LEGACY_DAILY_USED_KEY);
   console.log('Reset daily puzzle used posts tracking');
 }
 
+export interface DailyPostUsage {
+  postId: string;
+  /** Null if the post has since been trimmed from the library */
+  title: string | null;
+  /** YYYY-MM-DD of the last daily puzzle that used the post */
+  lastUsed: string;
+  /** YYYY-MM-DD from which the post can be picked again */
+  eligibleFrom: string;
+}
+
+function toDailyPostUsage(postId: string, score: number, post: RedditPost | null): DailyPostUsage {
+  const toDate = (ms: number) => new Date(ms).toISOString().split('T')[0] ?? '';
+  return {
+    postId,
+    title: post?.title ?? null,
+    lastUsed: toDate(score),
+    eligibleFrom: toDate(score + DAILY_POSTS.noRepeatWindowDays * DAY_MS),
+  };
+}
+
 /**
- * Get all posts from database
+ * When one post was last used for a daily puzzle, or null if never (or since reset)
  */
-export async function getAllPosts(): Promise<RedditPost[]> {
-  await initializePostDatabase(); // Ensure DB is initialized
-  
-  const postsJson = await redis.get(POST_DB_KEY);
-  if (!postsJson) {
-    await initializePostDatabase();
-    return getAllPosts();
+export async function getPostLastUsed(postId: string): Promise<DailyPostUsage | null> {
+  const score = await store.zScore(DAILY_LAST_USED_KEY, postId);
+  if (score === undefined) return null;
+  return toDailyPostUsage(postId, score, await readPost(postId));
+}
+
+/**
+ * Posts used for daily puzzles, most recently used first
+ */
+export async function getDailyPostUsage(limit = 50, offset = 0): Promise<DailyPostUsage[]> {
+  const entries = await store.zRange(DAILY_LAST_USED_KEY, offset, offset + limit - 1, {
+    by: 'rank',
+    reverse: true,
+  });
+  const usage: DailyPostUsage[] = [];
+  for (const { member, score } of entries) {
+    usage.push(toDailyPostUsage(member, score, await readPost(member)));
   }
-  
-  return JSON.parse(postsJson) as RedditPost[];
+  return usage;
+}
+
+/**
+ * Get the most upvoted posts, optionally only those matching `filter`.
+ * Walks the upvotes index a page at a time, so cost scales with `limit`, not library size.
+ */
+export async function getTopPosts(
+  limit: number,
+  filter: (post: RedditPost) => boolean = () => true
+): Promise<RedditPost[]> {
+  await initializePostDatabase();
+
+  const posts: RedditPost[] = [];
+  for (let start = 0; posts.length < limit; start += INDEX_PAGE_SIZE) {
+    const page = await store.zRange(UPVOTES_INDEX_KEY, start, start + INDEX_PAGE_SIZE - 1, {
+      by: 'rank',
+      reverse: true,
+    });
+    if (page.length === 0) break;
+
+    for (const { member } of page) {
+      const post = await readPost(member);
+      if (post && filter(post)) posts.push(post);
+      if (posts.length >= limit) break;
+    }
+  }
+  return posts;
 }
 
 /**
@@ -226,13 +487,44 @@ export async function getAllPosts(): Promise<RedditPost[]> {
  */
 export async function getPostCount(): Promise<number> {
   await initializePostDatabase();
-  
-  const count = await redis.get(POST_COUNT_KEY);
-  if (count) return parseInt(count, 10);
+
+  const count = await store.zCard(ID_INDEX_KEY);
+  if (count > 0) return count;
   // Fallback to curated posts count if Redis not initialized
   return getAllCuratedPosts().length;
 }
 
+export interface LibraryStats {
+  total: number;
+  cipherFriendly: number;
+  subreddits: number;
+  /** Posts inside the daily no-repeat window */
+  usedForDaily: number;
+  byDifficulty: Record<string, number>;
+}
+
+/**
+ * Summary counts for the library (moderator stats), read from index sizes
+ */
+export async function getLibraryStats(): Promise<LibraryStats> {
+  await initializePostDatabase();
+
+  const recentIds = await getRecentlyUsedPostIds(new Date());
+  const byDifficulty: Record<string, number> = {};
+  for (const difficulty of DIFFICULTIES) {
+    const count = await store.zCard(difficultyIndexKey(difficulty));
+    if (count > 0) byDifficulty[difficulty] = count;
+  }
+
+  return {
+    total: await store.zCard(ID_INDEX_KEY),
+    cipherFriendly: await store.zCard(FRIENDLY_INDEX_KEY),
+    subreddits: await store.zCard(SUBREDDITS_KEY),
+    usedForDaily: recentIds.size,
+    byDifficulty,
+  };
+}
+
 /**
  * Hash a string to a number (deterministic)
  */
@@ -247,49 +539,108 @@ function hashString(str: string): number {
 }
 
 /**
- * Get daily puzzle post using hash-based selection
- * Ensures same post for everyone on same day; prevents repeats by tracking used posts
- * Uses stable ordering (sort by post ID) so selection does not depend on database size
+ * Get the post at `rank` (id order) of an index
  */
-export async function getDailyPost(date: Date = new Date()): Promise<RedditPost> {
-  await initializePostDatabase();
+async function getPostAtRank(indexKey: string, rank: number): Promise<RedditPost | null> {
+  const [entry] = await store.zRange(indexKey, rank, rank, { by: 'rank' });
+  return entry ? readPost(entry.member) : null;
+}
 
+/**
+ * Walk an index (id order, wrapping around) from `startRank` and return the first post
+ * not in `excludedIds`, or null if every post in the index is excluded
+ */
+async function findUnusedPost(
+  indexKey: string,
+  startRank: number,
+  excludedIds: Set<string>
+): Promise<RedditPost | null> {
+  const size = await store.zCard(indexKey);
+  let rank = size > 0 ? startRank % size : 0;
+
+  for (let scanned = 0; scanned < size; ) {
+    const page = await store.zRange(indexKey, rank, rank + INDEX_PAGE_SIZE - 1, { by: 'rank' });
+    if (page.length === 0) break;
+
+    const unused = page.find((entry) => !excludedIds.has(entry.member));
+    if (unused) return readPost(unused.member);
+
+    scanned += page.length;
+    rank += page.length;
+    if (rank >= size) rank = 0;
+  }
+  return null;
+}
+
+/**
+ * The library post whose last daily use is oldest, skipping `excludedIds` (fallback
+ * once the whole library is inside the no-repeat window)
+ */
+async function getLeastRecentlyUsedPost(excludedIds: Set<string>): Promise<RedditPost | null> {
+  for (let start = 0; ; start += INDEX_PAGE_SIZE) {
+    const page = await store.zRange(DAILY_LAST_USED_KEY, start, start + INDEX_PAGE_SIZE - 1, {
+      by: 'rank',
+    });
+    if (page.length === 0) return null;
+    for (const { member } of page) {
+      if (excludedIds.has(member)) continue;
+      // Entries for posts trimmed from the library are skipped
+      const post = await readPost(member);
+      if (post) return post;
+    }
+  }
+}
+
+/**
+ * Pick the daily puzzle post for a date using hash-based selection, without recording it.
+ * Ensures same post for everyone on same day; posts used within the no-repeat window are skipped
+ * Uses stable ordering (index rank = post ID order) so selection does not depend on insertion order
+ * `excludedIds` (e.g. posts blocked on the puzzle calendar) are never picked; `plannedIds`
+ * count as used inside the window (posts a preview has planned for earlier days).
+ */
+export async function selectDailyPost(
+  date: Date,
+  excludedIds: Set<string> = new Set(),
+  plannedIds: Set<string> = new Set()
+): Promise<RedditPost> {
   const dateString = date.toISOString().split('T')[0];
-  const allPosts = await getAllPosts();
+  const total = await store.zCard(ID_INDEX_KEY);
 
-  if (allPosts.length === 0) {
+  if (total === 0) {
     throw new Error('No posts available in database');
   }
 
-  const usedIds = await getUsedDailyPostIds();
-  const availablePosts = allPosts.filter((post) => !usedIds.has(post.id));
+  const recentIds = await getRecentlyUsedPostIds(date);
+  const skippedIds = new Set([...recentIds, ...plannedIds, ...excludedIds]);
+  const hash = hashString(`daily-${dateString}`);
 
   // Prefer cipher-friendly posts (no digits, mostly letters) for better puzzle experience
-  const cipherFriendlyPool = availablePosts.filter(postIsCipherFriendly);
-  const selectionPool = cipherFriendlyPool.length > 0 ? cipherFriendlyPool : availablePosts;
-
-  // If we've used most posts, reset tracking (e.g. after ~1 year)
-  if (availablePosts.length < allPosts.length * 0.1) {
-    console.log(`Low on unused posts (${availablePosts.length}/${allPosts.length}), resetting tracking`);
-    await resetUsedDailyPosts();
-    const hash = hashString(`daily-${dateString}`);
-    const index = hash % allPosts.length;
-    const selectedPost = allPosts[index];
-    await markPostAsUsedForDaily(selectedPost.id);
-    console.log(`Selected post ${index} from ${allPosts.length} posts for ${dateString} (hash: ${hash})`);
-    return selectedPost;
+  let selectedPost =
+    (await findUnusedPost(FRIENDLY_INDEX_KEY, hash, skippedIds)) ??
+    (await findUnusedPost(ID_INDEX_KEY, hash, skippedIds));
+
+  if (!selectedPost) {
+    console.log(`All ${total} posts used within the no-repeat window, reusing the oldest`);
+    selectedPost = await getLeastRecentlyUsedPost(new Set([...plannedIds, ...excludedIds]));
+  }
+  if (!selectedPost) {
+    throw new Error('No posts available in database');
   }
+  return selectedPost;
+}
 
-  // Stable ordering by post ID so selection does not change when DB size changes
-  const sortedPosts = [...selectionPool].sort((a, b) => a.id.localeCompare(b.id));
-  const hash = hashString(`daily-${dateString}`);
-  const index = hash % sortedPosts.length;
-  const selectedPost = sortedPosts[index];
+/**
+ * Get the daily puzzle post for a date and record it as used (selectDailyPost, then commit)
+ */
+export async function getDailyPost(
+  date: Date = new Date(),
+  excludedIds: Set<string> = new Set()
+): Promise<RedditPost> {
+  await initializePostDatabase();
 
-  await markPostAsUsedForDaily(selectedPost.id);
-  console.log(
-    `Selected unused post ${index} from ${sortedPosts.length} available (${allPosts.length} total, cipher-friendly pool: ${cipherFriendlyPool.length}) for ${dateString}`
-  );
+  const selectedPost = await selectDailyPost(date, excludedIds);
+  await markPostAsUsedForDaily(selectedPost.id, date);
+  console.log(`Selected post ${selectedPost.id} for ${date.toISOString().split('T')[0]}`);
 
   return selectedPost;
 }
@@ -318,36 +669,32 @@ export async function getRandomPost(
 ): Promise<RedditPost> {
   await initializePostDatabase();
 
-  let posts = await getAllPosts();
+  const allKey = subreddit ? subredditIndexKey(subreddit) : ID_INDEX_KEY;
+  const friendlyKey = subreddit ? subredditIndexKey(subreddit, true) : FRIENDLY_INDEX_KEY;
 
-  if (subreddit) {
-    const normalizedSubreddit = subreddit.toLowerCase().replace(/^r\//, '');
-    posts = posts.filter(
-      (post) =>
-        post.subreddit.toLowerCase().replace(/^r\//, '') === normalizedSubreddit
+  const total = await store.zCard(allKey);
+  if (total === 0) {
+    throw new Error(
+      subreddit ? `No posts found for subreddit: ${subreddit}` : 'No posts available in database'
     );
-    if (posts.length === 0) {
-      throw new Error(`No posts found for subreddit: ${subreddit}`);
-    }
-  }
-
-  if (posts.length === 0) {
-    throw new Error('No posts available in database');
   }
 
   // Prefer cipher-friendly posts; fall back to all if none match
-  const cipherFriendlyPool = posts.filter(postIsCipherFriendly);
-  const selectionPool = cipherFriendlyPool.length > 0 ? cipherFriendlyPool : posts;
+  const friendlyCount = await store.zCard(friendlyKey);
+  const poolKey = friendlyCount > 0 ? friendlyKey : allKey;
+  const poolSize = friendlyCount > 0 ? friendlyCount : total;
 
   const seedKey = seed ?? Date.now();
   const seedHash = hashString(`practice-${seedKey}-${subreddit || 'all'}`);
-  const randomIndex = seedHash % selectionPool.length;
+  const randomIndex = seedHash % poolSize;
 
   console.log(
-    `Selected post ${randomIndex} from ${selectionPool.length} posts${subreddit ? ` for ${subreddit}` : ''} (seed: ${seedHash}, cipher-friendly pool: ${cipherFriendlyPool.length})`
+    `Selected post ${randomIndex} from ${poolSize} posts${subreddit ? ` for ${subreddit}` : ''} (seed: ${seedHash}, cipher-friendly pool: ${friendlyCount})`
   );
 
-  return selectionPool[randomIndex];
+  const post = await getPostAtRank(poolKey, randomIndex);
+  if (!post) throw new Error('No posts available in database');
+  return post;
 }
 
 /**
@@ -365,6 +712,6 @@ export async function getAvailableSubreddits(): Promise<string[]> {
  * Get a post by ID
  */
 export async function getPostById(id: string): Promise<RedditPost | null> {
-  const posts = await getAllPosts();
-  return posts.find((p) => p.id === id) || null;
+  await initializePostDatabase();
+  return readPost(id);
 }
@@ -0,0 +1,194 @@
+// Puzzle calendar - moderator overrides for daily puzzle selection
+// A date can be pinned to a library post or to custom text, and posts can be blocked
+// from daily use. getDailyPuzzle checks the calendar before falling back to hash
+// selection; a day whose puzzle is already generated keeps it.
+
+import { store } from '../core/store';
+import { isCipherFriendly } from '../../shared/cryptogram/cipher-fit';
+import type { RedditPost } from '../../shared/types/puzzle';
+import { getPostById } from './post-database';
+import { getRegisteredPuzzle } from './puzzle-registry';
+
+/** Hash of date (YYYY-MM-DD) -> CalendarPin JSON */
+const PINS_KEY = 'calendar:pins';
+/** Hash of post id -> BlockedPost JSON */
+const BLOCKED_KEY = 'calendar:blocked';
+/** Furthest ahead a date can be pinned */
+const MAX_DAYS_AHEAD = 366;
+const MAX_TEXT_LENGTH = 250;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type CalendarPin =
+  | { kind: 'post'; postId: string; pinnedBy: string; pinnedAt: number }
+  | { kind: 'text'; text: string; subreddit: string; pinnedBy: string; pinnedAt: number };
+
+export interface BlockedPost {
+  postId: string;
+  /** Null if the post has since been trimmed from the library */
+  title: string | null;
+  blockedBy: string;
+  blockedAt: number;
+}
+
+export interface CalendarDay {
+  date: string;
+  pin?: CalendarPin;
+  /** Set once the day's puzzle is generated; pins no longer apply to it */
+  generated?: { postId: string; title: string };
+}
+
+const toDateString = (date: Date): string => date.toISOString().split('T')[0] ?? '';
+
+/**
+ * True for a YYYY-MM-DD date from today (UTC) up to a year ahead
+ */
+export function isSchedulableDate(date: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return false;
+  const day = Date.parse(`${date}T00:00:00Z`);
+  if (!Number.isFinite(day) || toDateString(new Date(day)) !== date) return false;
+  const today = Date.parse(`${toDateString(new Date())}T00:00:00Z`);
+  return day >= today && day <= today + MAX_DAYS_AHEAD * DAY_MS;
+}
+
+/**
+ * The pin for a date, or null
+ */
+export async function getCalendarPin(date: string): Promise<CalendarPin | null> {
+  const json = await store.hGet(PINS_KEY, date);
+  return json ? (JSON.parse(json) as CalendarPin) : null;
+}
+
+/**
+ * Pin a library post to a date. Returns null if the post is not in the library.
+ */
+export async function pinPostToDate(
+  date: string,
+  postId: string,
+  moderator: string
+): Promise<CalendarPin | null> {
+  if (!(await getPostById(postId))) return null;
+  const pin: CalendarPin = { kind: 'post', postId, pinnedBy: moderator, pinnedAt: Date.now() };
+  await store.hSet(PINS_KEY, { [date]: JSON.stringify(pin) });
+  console.log(`Calendar: ${moderator} pinned post ${postId} to ${date}`);
+  return pin;
+}
+
+/**
+ * Pin custom text to a date, credited to the moderator and `subreddit`. Returns null if
+ * the text is too short or long, or not cipher-friendly (digits and heavy punctuation
+ * don't encipher).
+ */
+export async function pinTextToDate(
+  date: string,
+  text: string,
+  moderator: string,
+  subreddit: string
+): Promise<CalendarPin | null> {
+  const trimmed = text.trim().replace(/\s+/g, ' ');
+  if (trimmed.length > MAX_TEXT_LENGTH || !isCipherFriendly(trimmed)) return null;
+  const pin: CalendarPin = {
+    kind: 'text',
+    text: trimmed,
+    subreddit,
+    pinnedBy: moderator,
+    pinnedAt: Date.now(),
+  };
+  await store.hSet(PINS_KEY, { [date]: JSON.stringify(pin) });
+  console.log(`Calendar: ${moderator} pinned custom text to ${date}`);
+  return pin;
+}
+
+/**
+ * Remove a date's pin. Returns false if there was none.
+ */
+export async function unpinDate(date: string): Promise<boolean> {
+  return (await store.hDel(PINS_KEY, [date])) > 0;
+}
+
+/**
+ * Keep a post out of daily hash selection. Returns null if the post is not in the library.
+ */
+export async function blockPost(postId: string, moderator: string): Promise<BlockedPost | null> {
+  const post = await getPostById(postId);
+  if (!post) return null;
+  const blocked: BlockedPost = {
+    postId,
+    title: post.title,
+    blockedBy: moderator,
+    blockedAt: Date.now(),
+  };
+  await store.hSet(BLOCKED_KEY, { [postId]: JSON.stringify(blocked) });
+  console.log(`Calendar: ${moderator} blocked post ${postId} from daily use`);
+  return blocked;
+}
+
+/**
+ * Let a blocked post be picked again. Returns false if it was not blocked.
+ */
+export async function unblockPost(postId: string): Promise<boolean> {
+  return (await store.hDel(BLOCKED_KEY, [postId])) > 0;
+}
+
+/**
+ * Every blocked post, most recently blocked first
+ */
+export async function getBlockedPosts(): Promise<BlockedPost[]> {
+  const blocked = await store.hGetAll(BLOCKED_KEY);
+  return Object.values(blocked)
+    .map((json) => JSON.parse(json) as BlockedPost)
+    .sort((a, b) => b.blockedAt - a.blockedAt);
+}
+
+/**
+ * Posts hash selection must skip for `date`: blocked posts and posts pinned to a later date
+ */
+export async function getCalendarExclusions(date: string): Promise<Set<string>> {
+  const excluded = new Set(Object.keys(await store.hGetAll(BLOCKED_KEY)));
+  for (const [pinDate, json] of Object.entries(await store.hGetAll(PINS_KEY))) {
+    const pin = JSON.parse(json) as CalendarPin;
+    if (pin.kind === 'post' && pinDate > date) excluded.add(pin.postId);
+  }
+  return excluded;
+}
+
+/**
+ * The puzzle source a pin stands for, or null if its post has left the library
+ */
+export async function resolvePinnedSource(
+  date: string,
+  pin: CalendarPin
+): Promise<RedditPost | null> {
+  if (pin.kind === 'post') return getPostById(pin.postId);
+  // Custom text has no Reddit post; the curated- prefix makes links fall back to the subreddit
+  return {
+    id: `curated-calendar-${date}`,
+    title: pin.text,
+    subreddit: pin.subreddit,
+    author: pin.pinnedBy,
+    upvotes: 0,
+    permalink: pin.subreddit ? `/r/${pin.subreddit}` : '',
+    createdUtc: Math.floor(pin.pinnedAt / 1000),
+    cipherFriendly: true,
+  };
+}
+
+/**
+ * The next `days` days from `from` (inclusive) with their pins and generated puzzles
+ */
+export async function getCalendar(days = 30, from: Date = new Date()): Promise<CalendarDay[]> {
+  const pins = await store.hGetAll(PINS_KEY);
+  const calendar: CalendarDay[] = [];
+  for (let i = 0; i < days; i++) {
+    const date = toDateString(new Date(from.getTime() + i * DAY_MS));
+    const pinJson = pins[date];
+    const registered = await getRegisteredPuzzle(`daily-${date}`);
+    calendar.push({
+      date,
+      ...(pinJson ? { pin: JSON.parse(pinJson) as CalendarPin } : {}),
+      ...(registered
+        ? { generated: { postId: registered.source.id, title: registered.source.title } }
+        : {}),
+    });
+  }
+  return calendar;
+}
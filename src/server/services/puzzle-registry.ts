@@ -0,0 +1,86 @@
+// Puzzle registry - every generated daily puzzle, kept permanently and looked up by id
+// Lets validate, share and leaderboards resolve the puzzle a player actually started,
+// even after the UTC date has rolled over. Practice puzzles are rebuilt from their
+// token, so only their source post is kept, and only while the token is valid.
+
+import { store } from '../core/store';
+import type { Puzzle, RedditPost } from '../../shared/types/puzzle';
+
+const PUZZLE_REGISTRY_PREFIX = 'puzzle:id:';
+/** Sorted set of registered puzzle ids, scored by puzzle date (ms since epoch) */
+const PUZZLE_INDEX_KEY = 'puzzle:index';
+/** Index entries read per round-trip */
+const INDEX_PAGE_SIZE = 500;
+/** Source post snapshots for practice tokens, by post id */
+const PRACTICE_SOURCE_PREFIX = 'puzzle:practice-source:';
+
+function registryKey(puzzleId: string): string {
+  return `${PUZZLE_REGISTRY_PREFIX}${puzzleId}`;
+}
+
+/**
+ * Get a registered puzzle by id, or null if it was never generated
+ */
+export async function getRegisteredPuzzle(puzzleId: string): Promise<Puzzle | null> {
+  const json = await store.get(registryKey(puzzleId));
+  return json ? (JSON.parse(json) as Puzzle) : null;
+}
+
+/**
+ * Register a puzzle. The first registration for an id wins, so concurrent
+ * generators agree on one puzzle; returns the puzzle that is registered.
+ */
+export async function registerPuzzle(puzzle: Puzzle): Promise<Puzzle> {
+  await store.set(registryKey(puzzle.id), JSON.stringify(puzzle), { nx: true });
+  const registered = await getRegisteredPuzzle(puzzle.id);
+  if (!registered) throw new Error(`Failed to register puzzle ${puzzle.id}`);
+
+  await store.zAdd(PUZZLE_INDEX_KEY, {
+    member: registered.id,
+    score: new Date(`${registered.date}T00:00:00Z`).getTime(),
+  });
+  return registered;
+}
+
+/**
+ * Ids of puzzles registered for dates up to `until` (YYYY-MM-DD, inclusive), oldest first
+ */
+export async function getRegisteredPuzzleIds(until: string): Promise<string[]> {
+  const max = new Date(`${until}T00:00:00Z`).getTime();
+  const ids: string[] = [];
+  for (let offset = 0; ; offset += INDEX_PAGE_SIZE) {
+    const page = await store.zRange(PUZZLE_INDEX_KEY, '-inf', max, {
+      by: 'score',
+      limit: { offset, count: INDEX_PAGE_SIZE },
+    });
+    ids.push(...page.map((item) => item.member));
+    if (page.length < INDEX_PAGE_SIZE) return ids;
+  }
+}
+
+/**
+ * Remove a puzzle from the registry (admin: force regeneration)
+ */
+export async function unregisterPuzzle(puzzleId: string): Promise<void> {
+  await store.del(registryKey(puzzleId));
+  await store.zRem(PUZZLE_INDEX_KEY, [puzzleId]);
+}
+
+/**
+ * Keep a snapshot of a practice puzzle's source post for `ttlMs`, so trimming the
+ * library doesn't invalidate tokens that are still in play. Reissuing from the same
+ * post extends the snapshot.
+ */
+export async function registerPracticeSource(source: RedditPost, ttlMs: number): Promise<void> {
+  await store.set(`${PRACTICE_SOURCE_PREFIX}${source.id}`, JSON.stringify(source), {
+    expiration: new Date(Date.now() + ttlMs),
+  });
+}
+
+/**
+ * Get the snapshot of a practice source post, or null if it has lapsed
+ */
+export async function getPracticeSource(postId: string): Promise<RedditPost | null> {
+  const json = await store.get(`${PRACTICE_SOURCE_PREFIX}${postId}`);
+  return json ? (JSON.parse(json) as RedditPost) : null;
+}
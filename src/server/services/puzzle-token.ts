@@ -0,0 +1,105 @@
+// Signed practice puzzle tokens
+// A practice puzzle is fully described by its source post, a random seed and the issue time,
+// so instead of storing every practice puzzle we hand the client an HMAC-signed token and
+// rebuild the puzzle from it on each request.
+
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { settings } from '@devvit/web/server';
+import { store } from '../core/store';
+
+const TOKEN_VERSION = 'v1';
+/** Global app setting; when unset a secret is generated once and kept in Redis */
+const TOKEN_SECRET_SETTING = 'puzzleTokenSecret';
+const TOKEN_SECRET_KEY = 'puzzle:token-secret';
+/** Tokens stay valid long enough to resume a paused practice puzzle from history */
+export const PRACTICE_TOKEN_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface PracticeTokenPayload {
+  /** Source post id (library) */
+  postId: string;
+  /** Random per-puzzle seed; the cipher key is derived from it with the secret */
+  seed: string;
+  /** ms timestamp when the token was issued */
+  issuedAt: number;
+}
+
+let cachedSecret: string | null = null;
+
+/**
+ * Signing secret: the app setting if configured, otherwise a Redis-held secret
+ * generated on first use.
+ */
+async function getTokenSecret(): Promise<string> {
+  if (cachedSecret) return cachedSecret;
+
+  const configured = await settings.get<string>(TOKEN_SECRET_SETTING);
+  if (configured) {
+    cachedSecret = configured;
+    return configured;
+  }
+
+  await store.set(TOKEN_SECRET_KEY, randomBytes(32).toString('hex'), { nx: true });
+  const stored = await store.get(TOKEN_SECRET_KEY);
+  if (!stored) throw new Error('Failed to load puzzle token secret');
+  cachedSecret = stored;
+  return stored;
+}
+
+function hmac(secret: string, value: string): Buffer {
+  return createHmac('sha256', secret).update(value).digest();
+}
+
+/**
+ * Issue a signed token for a new practice puzzle built from `postId`
+ */
+export async function signPracticeToken(
+  postId: string
+): Promise<{ token: string; payload: PracticeTokenPayload }> {
+  const payload: PracticeTokenPayload = {
+    postId,
+    seed: randomBytes(8).toString('hex'),
+    issuedAt: Date.now(),
+  };
+  const body = Buffer.from(
+    JSON.stringify({ p: payload.postId, s: payload.seed, t: payload.issuedAt })
+  ).toString('base64url');
+  const signed = `${TOKEN_VERSION}.${body}`;
+  const signature = hmac(await getTokenSecret(), signed).toString('base64url');
+  return { token: `${signed}.${signature}`, payload };
+}
+
+/**
+ * Verify a practice token. Returns the payload, or null if the token is malformed,
+ * tampered with or expired.
+ */
+export async function verifyPracticeToken(token: string): Promise<PracticeTokenPayload | null> {
+  const [version, body, signature] = token.split('.');
+  if (version !== TOKEN_VERSION || !body || !signature) return null;
+
+  const expected = hmac(await getTokenSecret(), `${version}.${body}`);
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+  try {
+    const data = JSON.parse(Buffer.from(body, 'base64url').toString('utf8')) as {
+      p?: unknown;
+      s?: unknown;
+      t?: unknown;
+    };
+    if (typeof data.p !== 'string' || typeof data.s !== 'string' || typeof data.t !== 'number') {
+      return null;
+    }
+    if (Date.now() - data.t > PRACTICE_TOKEN_MAX_AGE_MS) return null;
+    return { postId: data.p, seed: data.s, issuedAt: data.t };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Cipher key seed for a practice puzzle. The token carries the seed in the clear,
+ * so the key is keyed with the secret to keep it off the client.
+ */
+export async function getPracticeCipherSeed(payload: PracticeTokenPayload): Promise<string> {
+  return hmac(await getTokenSecret(), `cipher:${payload.seed}`).toString('hex');
+}
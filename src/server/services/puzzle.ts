@@ -1,49 +1,72 @@
 // Puzzle generation and management service
 
-import { redis } from '@devvit/web/server';
+import { store } from '../core/store';
 import {
   generateCipherMap,
   encryptText,
   getDailyPuzzleSeed,
   getPracticePuzzleSeed,
 } from '../../shared/cryptogram/engine';
-import type { Puzzle, RedditPost } from '../../shared/types/puzzle';
+import type { ClientPuzzle, Puzzle, PuzzleReveal, RedditPost } from '../../shared/types/puzzle';
 import {
   getDailyPost,
+  getPostById,
+  initializePostDatabase,
+  markPostAsUsedForDaily,
+  selectDailyPost,
   getRandomPost,
   selectPostFromPool,
   syncRedditPostsToLibrary,
 } from './post-database';
+import {
+  getPracticeCipherSeed,
+  PRACTICE_TOKEN_MAX_AGE_MS,
+  signPracticeToken,
+  verifyPracticeToken,
+  type PracticeTokenPayload,
+} from './puzzle-token';
+import {
+  getPracticeSource,
+  getRegisteredPuzzle,
+  registerPracticeSource,
+  registerPuzzle,
+  unregisterPuzzle,
+} from './puzzle-registry';
+import { getCalendarExclusions, getCalendarPin, resolvePinnedSource } from './puzzle-calendar';
+import type { CalendarPin } from './puzzle-calendar';
 import {
   fetchTrendingPosts,
   fetchRandomPost as fetchRedditPost,
   fetchPostsForSubreddit,
 } from './reddit';
 
+/** Legacy per-date cache; moved into the registry by a schema migration */
 const PUZZLE_CACHE_PREFIX = 'puzzle:daily:';
-const PUZZLE_NUMBER_KEY = 'puzzle:number';
-const LAST_PUZZLE_DATE_KEY = 'puzzle:last-date';
 const LAUNCH_DATE = '2026-02-05'; // Set to your launch date
 
 /**
- * Get puzzle number (days since launch)
+ * Get puzzle number for a UTC date string (days since launch, starting at 1)
  */
-async function getPuzzleNumber(): Promise<number> {
-  const cached = await redis.get(PUZZLE_NUMBER_KEY);
-  if (cached) {
-    return parseInt(cached, 10);
-  }
+export function getPuzzleNumberForDate(dateString: string): number {
+  const launch = new Date(`${LAUNCH_DATE}T00:00:00Z`).getTime();
+  const day = new Date(`${dateString}T00:00:00Z`).getTime();
+  const daysSinceLaunch = Math.floor((day - launch) / (1000 * 60 * 60 * 24));
+  return Math.max(1, daysSinceLaunch + 1);
+}
 
-  // Calculate days since launch
-  const launch = new Date(LAUNCH_DATE);
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  launch.setHours(0, 0, 0, 0);
-  const daysSinceLaunch = Math.floor((today.getTime() - launch.getTime()) / (1000 * 60 * 60 * 24));
-  const puzzleNumber = Math.max(1, daysSinceLaunch + 1);
+/**
+ * Puzzle id of the daily puzzle for a date
+ */
+export function getDailyPuzzleId(date: Date = new Date()): string {
+  return `daily-${getNormalizedDateString(date)}`;
+}
 
-  await redis.set(PUZZLE_NUMBER_KEY, puzzleNumber.toString());
-  return puzzleNumber;
+/**
+ * UTC date a daily puzzle id belongs to, or null for other puzzle ids
+ */
+export function getDailyPuzzleDate(puzzleId: string): Date | null {
+  const match = /^daily-(\d{4}-\d{2}-\d{2})$/.exec(puzzleId);
+  return match ? new Date(`${match[1]}T00:00:00Z`) : null;
 }
 
 /**
@@ -60,86 +83,214 @@ function getNormalizedDateString(date: Date = new Date()): string {
   return utcDate.toISOString().split('T')[0];
 }
 
+/**
+ * Source post for a date pinned on the puzzle calendar, or null to use hash selection.
+ * Read-only; the caller records a pinned library post as used.
+ */
+async function getPinnedDailySource(
+  dateString: string
+): Promise<{ source: RedditPost; kind: CalendarPin['kind'] } | null> {
+  const pin = await getCalendarPin(dateString);
+  if (!pin) return null;
+
+  const source = await resolvePinnedSource(dateString, pin);
+  if (!source) {
+    console.error(`Calendar pin for ${dateString} names a post no longer in the library`);
+    return null;
+  }
+  return { source, kind: pin.kind };
+}
+
+/**
+ * The daily puzzle a source post makes for a date (pure: no storage)
+ */
+function buildDailyPuzzle(dateString: string, source: RedditPost): Puzzle {
+  const puzzleId = `daily-${dateString}`;
+  const seed = getDailyPuzzleSeed(new Date(`${dateString}T00:00:00Z`), puzzleId);
+  const cipherMap = generateCipherMap(seed);
+  const plainText = source.title.toUpperCase();
+  return {
+    id: puzzleId,
+    cipherText: encryptText(plainText, cipherMap),
+    plainText,
+    source,
+    seed,
+    date: dateString,
+    mode: 'daily',
+  };
+}
+
 /**
  * Generate or retrieve daily puzzle
- * Uses hash-based selection to ensure same puzzle for everyone on same day
+ * Uses the puzzle calendar's pin for the date if there is one, otherwise hash-based
+ * selection to ensure same puzzle for everyone on same day
  */
 export async function getDailyPuzzle(date: Date = new Date()): Promise<Puzzle> {
   // Normalize to UTC date string to ensure consistency
   const dateString = getNormalizedDateString(date);
-  const cacheKey = `${PUZZLE_CACHE_PREFIX}${dateString}`;
-
-  // Check if we need to generate a new puzzle (date changed)
-  const lastDate = await redis.get(LAST_PUZZLE_DATE_KEY);
-  const dateChanged = lastDate !== dateString;
-
-  // Check cache - but verify the cached puzzle is for today's date
-  const cached = await redis.get(cacheKey);
-  if (cached && !dateChanged) {
-    const cachedPuzzle = JSON.parse(cached) as Puzzle;
-    // Double-check the cached puzzle is for today
-    if (cachedPuzzle.date === dateString) {
-      console.log(`Returning cached puzzle for ${dateString}`);
-      return cachedPuzzle;
-    }
-  }
+  const puzzleId = `daily-${dateString}`;
 
-  // If date changed, clear old caches
-  if (dateChanged && lastDate) {
-    console.log(`Date changed from ${lastDate} to ${dateString} - clearing old cache`);
-    try {
-      await redis.del(`${PUZZLE_CACHE_PREFIX}${lastDate}`);
-    } catch (err) {
-      // Ignore if key doesn't exist
-    }
+  const registered = await getRegisteredPuzzle(puzzleId);
+  if (registered) {
+    console.log(`Returning registered puzzle for ${dateString}`);
+    return registered;
   }
 
   // Generate new puzzle using hash-based post selection
-  const puzzleNumber = await getPuzzleNumber();
+  const puzzleNumber = getPuzzleNumberForDate(dateString);
   const normalizedDate = new Date(dateString + 'T00:00:00Z');
 
   // Prefer library first for fast response; refresh library in background for next time
   let source: RedditPost;
-  try {
-    source = await getDailyPost(normalizedDate);
-    refreshLibraryInBackground();
-  } catch (error) {
-    console.error('Daily puzzle: no post in library, syncing from Reddit:', error);
+  const pinned = await getPinnedDailySource(dateString);
+  if (pinned) {
+    source = pinned.source;
+    if (pinned.kind === 'post') await markPostAsUsedForDaily(source.id, normalizedDate);
+    console.log(`Using calendar pin (${pinned.kind}) for ${dateString}`);
+  } else {
+    const excluded = await getCalendarExclusions(dateString);
     try {
-      const redditPosts = await fetchTrendingPosts(100);
-      if (redditPosts.length > 0) await syncRedditPostsToLibrary(redditPosts);
-      source = await getDailyPost(normalizedDate);
-    } catch (err2) {
-      console.error('Error in daily puzzle (Reddit sync or getDailyPost):', err2);
-      source = await getDailyPost(normalizedDate);
+      source = await getDailyPost(normalizedDate, excluded);
+      refreshLibraryInBackground();
+    } catch (error) {
+      console.error('Daily puzzle: no post in library, syncing from Reddit:', error);
+      try {
+        const redditPosts = await fetchTrendingPosts(100);
+        if (redditPosts.length > 0) await syncRedditPostsToLibrary(redditPosts);
+        source = await getDailyPost(normalizedDate, excluded);
+      } catch (err2) {
+        console.error('Error in daily puzzle (Reddit sync or getDailyPost):', err2);
+        source = await getDailyPost(normalizedDate, excluded);
+      }
     }
   }
 
-  const puzzleId = `daily-${dateString}`;
-  const seed = getDailyPuzzleSeed(normalizedDate, puzzleId);
-  const cipherMap = generateCipherMap(seed);
-  const plainText = source.title.toUpperCase();
-  const cipherText = encryptText(plainText, cipherMap);
-
-  const puzzle: Puzzle = {
-    id: puzzleId,
-    cipherText,
-    plainText,
-    source,
-    seed,
-    date: dateString,
-    mode: 'daily',
-  };
+  // Kept permanently so players can finish (or resume) a puzzle after the date rolls over
+  const stored = await registerPuzzle(buildDailyPuzzle(dateString, source));
 
-  // Cache for 48 hours (safety buffer) - but will be replaced tomorrow anyway
-  await redis.set(cacheKey, JSON.stringify(puzzle), { expirationTtl: 172800 });
-  
-  // Update last puzzle date
-  await redis.set(LAST_PUZZLE_DATE_KEY, dateString);
-  
   console.log(`Generated NEW daily puzzle for ${dateString} (puzzle #${puzzleNumber}, post: "${source.title.substring(0, 50)}...")`);
-  
-  return puzzle;
+
+  return stored;
+}
+
+export interface DailyPuzzlePreview {
+  date: string;
+  puzzleNumber: number;
+  /** `generated`: already registered; `pinned`: from the calendar; `automatic`: hash pick */
+  origin: 'generated' | 'pinned' | 'automatic';
+  post: Pick<RedditPost, 'id' | 'title' | 'subreddit' | 'author'>;
+  cipherText: string;
+}
+
+/**
+ * The daily puzzles the next `days` days (from `from`, inclusive) will get, without
+ * generating them or marking posts as used. Each planned pick counts as used for the
+ * days after it, as it will once it goes live; pins and blocks are applied as
+ * getDailyPuzzle applies them.
+ */
+export async function previewDailyPuzzles(
+  days: number,
+  from: Date = new Date()
+): Promise<DailyPuzzlePreview[]> {
+  await initializePostDatabase();
+
+  const previews: DailyPuzzlePreview[] = [];
+  const plannedIds = new Set<string>();
+  for (let i = 0; i < days; i++) {
+    const day = new Date(from.getTime() + i * 24 * 60 * 60 * 1000);
+    const dateString = getNormalizedDateString(day);
+    const normalizedDate = new Date(`${dateString}T00:00:00Z`);
+
+    let origin: DailyPuzzlePreview['origin'];
+    let puzzle = await getRegisteredPuzzle(`daily-${dateString}`);
+    if (puzzle) {
+      origin = 'generated';
+    } else {
+      const pinned = await getPinnedDailySource(dateString);
+      origin = pinned ? 'pinned' : 'automatic';
+      const source =
+        pinned?.source ??
+        (await selectDailyPost(
+          normalizedDate,
+          await getCalendarExclusions(dateString),
+          plannedIds
+        ));
+      if (!pinned || pinned.kind === 'post') plannedIds.add(source.id);
+      puzzle = buildDailyPuzzle(dateString, source);
+    }
+
+    const { id, title, subreddit, author } = puzzle.source;
+    previews.push({
+      date: dateString,
+      puzzleNumber: getPuzzleNumberForDate(dateString),
+      origin,
+      post: { id, title, subreddit, author },
+      cipherText: puzzle.cipherText,
+    });
+  }
+  return previews;
+}
+
+/**
+ * Remove a day's daily puzzle so the next request generates a new one
+ */
+export async function clearDailyPuzzle(date: Date = new Date()): Promise<void> {
+  await unregisterPuzzle(getDailyPuzzleId(date));
+}
+
+/**
+ * UTC dates (YYYY-MM-DD) from launch through `until`, oldest first
+ */
+export function getDatesSinceLaunch(until: Date = new Date()): string[] {
+  const dates: string[] = [];
+  const end = getNormalizedDateString(until);
+  for (let day = new Date(`${LAUNCH_DATE}T00:00:00Z`); ; day.setUTCDate(day.getUTCDate() + 1)) {
+    const dateString = getNormalizedDateString(day);
+    if (dateString > end) break;
+    dates.push(dateString);
+  }
+  return dates;
+}
+
+/**
+ * Move puzzles generated before the registry existed out of the per-date cache
+ * (schema migration). Returns the number of puzzles registered.
+ */
+export async function importLegacyDailyPuzzles(): Promise<number> {
+  let moved = 0;
+  for (const dateString of getDatesSinceLaunch()) {
+    const cacheKey = `${PUZZLE_CACHE_PREFIX}${dateString}`;
+    const legacy = await store.get(cacheKey);
+    if (!legacy) continue;
+
+    const legacyPuzzle = JSON.parse(legacy) as Puzzle;
+    if (legacyPuzzle.id === `daily-${dateString}`) {
+      await registerPuzzle(legacyPuzzle);
+      moved++;
+    }
+    await store.del(cacheKey);
+  }
+  return moved;
+}
+
+/**
+ * Replace today's puzzle with a freshly selected one.
+ * The old post stays marked as used, so a different post is picked. Player state for
+ * the old puzzle is not touched; callers clear it first (resetDailyPuzzle).
+ */
+export async function rerollDailyPuzzle(date: Date = new Date()): Promise<Puzzle> {
+  await clearDailyPuzzle(date);
+  return getDailyPuzzle(date);
+}
+
+/**
+ * Fetch trending posts from Reddit and sync them into the library now.
+ * Returns how many posts were fetched and how many were new.
+ */
+export async function syncLibraryNow(): Promise<{ fetched: number; added: number }> {
+  const posts = await fetchTrendingPosts(100);
+  const added = posts.length > 0 ? await syncRedditPostsToLibrary(posts) : 0;
+  return { fetched: posts.length, added };
 }
 
 /**
@@ -162,15 +313,43 @@ function refreshLibraryInBackground(subreddit?: string): void {
   })();
 }
 
+/** A puzzle together with the token the client uses to refer to it */
+export interface IssuedPuzzle {
+  puzzle: Puzzle;
+  token: string;
+}
+
 /**
- * Generate a practice puzzle.
+ * Build a practice puzzle from its source post and verified token payload.
+ * Practice puzzles are never stored; the same token always rebuilds the same puzzle.
+ */
+async function buildPracticePuzzle(source: RedditPost, payload: PracticeTokenPayload): Promise<Puzzle> {
+  const puzzleId = `practice-${payload.issuedAt}-${payload.seed}`;
+  const seed = getPracticePuzzleSeed(await getPracticeCipherSeed(payload));
+  const cipherMap = generateCipherMap(seed);
+  const plainText = source.title.toUpperCase();
+  const cipherText = encryptText(plainText, cipherMap);
+
+  return {
+    id: puzzleId,
+    cipherText,
+    plainText,
+    source,
+    seed,
+    date: new Date(payload.issuedAt).toISOString().split('T')[0] ?? '',
+    mode: 'practice',
+  };
+}
+
+/**
+ * Generate a practice puzzle and its signed token.
  * Uses library first for fast load; refreshes library in the background for next time.
  * Falls back to Reddit fetch only when the library is empty or has no posts for the subreddit.
  */
 export async function getPracticePuzzle(
   subreddit?: string,
   requestSeed?: number | string
-): Promise<Puzzle> {
+): Promise<IssuedPuzzle> {
   let source: RedditPost;
   const seedForSelection = requestSeed ?? Date.now();
 
@@ -228,31 +407,103 @@ export async function getPracticePuzzle(
     }
   }
 
-  const puzzleId = `practice-${Date.now()}-${Math.random().toString(36).substring(7)}`;
-  const seed = getPracticePuzzleSeed(puzzleId);
-  const cipherMap = generateCipherMap(seed);
-  const plainText = source.title.toUpperCase();
-  const cipherText = encryptText(plainText, cipherMap);
+  // The token names the source post; snapshot it so the token outlives library trims
+  await registerPracticeSource(source, PRACTICE_TOKEN_MAX_AGE_MS);
+  const { token, payload } = await signPracticeToken(source.id);
+  const puzzle = await buildPracticePuzzle(source, payload);
 
+  return { puzzle, token };
+}
+
+/**
+ * Strip the answer from a puzzle before sending it to the client.
+ * Only display metadata and an opaque token leave the server.
+ * Daily puzzles use their id as the token; practice puzzles pass their signed token.
+ */
+export function toClientPuzzle(puzzle: Puzzle, token: string = puzzle.id): ClientPuzzle {
   return {
-    id: puzzleId,
-    cipherText,
-    plainText,
-    source,
-    seed,
-    date: new Date().toISOString().split('T')[0],
-    mode: 'practice',
+    id: puzzle.id,
+    token,
+    cipherText: puzzle.cipherText,
+    meta: {
+      subreddit: puzzle.source.subreddit,
+      author: puzzle.source.author,
+      upvotes: puzzle.source.upvotes,
+    },
+    date: puzzle.date,
+    mode: puzzle.mode,
   };
 }
 
+/**
+ * Answer details sent to the client once a solve is confirmed
+ */
+export function toPuzzleReveal(puzzle: Puzzle): PuzzleReveal {
+  return { plainText: puzzle.plainText, source: puzzle.source };
+}
+
+/**
+ * Resolve a client puzzle token back to the full puzzle.
+ * Daily tokens are puzzle ids looked up in the registry; practice tokens must verify.
+ * Returns null when the token does not match a known puzzle.
+ */
+export async function resolvePuzzleToken(token: string): Promise<Puzzle | null> {
+  if (!token) return null;
+
+  if (!token.startsWith('daily-')) {
+    // Practice puzzle: only signed tokens are accepted
+    const payload = await verifyPracticeToken(token);
+    if (!payload) return null;
+    // Tokens issued before source snapshots existed fall back to the library
+    const source =
+      (await getPracticeSource(payload.postId)) ?? (await getPostById(payload.postId));
+    return source ? buildPracticePuzzle(source, payload) : null;
+  }
+
+  // Daily puzzle: resolve by id; only today's puzzle may be generated on demand
+  const registered = await getRegisteredPuzzle(token);
+  if (registered) return registered;
+  return token === getDailyPuzzleId() ? getDailyPuzzle() : null;
+}
+
+/**
+ * Check a single guess (cipher letter -> plain letter) against the puzzle's key
+ */
+export function checkGuess(
+  puzzle: Pick<Puzzle, 'seed'>,
+  cipherLetter: string,
+  plainLetter: string
+): boolean {
+  const cipherMap = generateCipherMap(puzzle.seed);
+  return cipherMap.decode[cipherLetter] === plainLetter;
+}
+
+/**
+ * Pick the next letter to reveal as a hint: the first cipher letter in the text
+ * that is not in `exclude`. Returns null when there is nothing left to reveal.
+ */
+export function getHintLetter(
+  puzzle: Pick<Puzzle, 'cipherText' | 'seed'>,
+  exclude: string[]
+): { cipherLetter: string; plainLetter: string } | null {
+  const cipherLetters = [...new Set(puzzle.cipherText.match(/[A-Z]/g) || [])];
+  const cipherLetter = cipherLetters.find((c) => !exclude.includes(c));
+  if (!cipherLetter) return null;
+
+  const cipherMap = generateCipherMap(puzzle.seed);
+  const plainLetter = cipherMap.decode[cipherLetter];
+  return plainLetter ? { cipherLetter, plainLetter } : null;
+}
+
 /**
  * Validate if puzzle is solved
  */
 export function validatePuzzle(
-  puzzle: Puzzle,
+  puzzle: Pick<Puzzle, 'cipherText' | 'seed'>,
   userMappings: Record<string, string>
 ): { isSolved: boolean; correctMappings: number; totalMappings: number } {
   const cipherLetters = new Set(puzzle.cipherText.match(/[A-Z]/g) || []);
+  const cipherMap = generateCipherMap(puzzle.seed);
   let correctMappings = 0;
   let totalMappings = 0;
 
@@ -260,8 +511,6 @@ export function validatePuzzle(
     const userGuess = userMappings[cipherLetter];
     if (userGuess) {
       totalMappings++;
-      // Regenerate cipher map to check
-      const cipherMap = generateCipherMap(puzzle.seed);
       if (userGuess === cipherMap.decode[cipherLetter]) {
         correctMappings++;
       }
@@ -0,0 +1,72 @@
+// Solve replays - one encoded mapping timeline per user + daily puzzle, built from the
+// guesses and hints the server recorded in the play session
+
+import { store } from '../core/store';
+import {
+  applyReplayEvent,
+  decodeReplay,
+  encodeReplay,
+  type ReplayEvent,
+} from '../../shared/cryptogram/replay';
+import type { Puzzle } from '../../shared/types/puzzle';
+import { RETENTION } from '../config';
+import { validatePuzzle } from './puzzle';
+
+const REPLAY_PREFIX = 'replay:';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function replayKey(puzzleId: string, username: string): string {
+  return `${REPLAY_PREFIX}${puzzleId}:${username}`;
+}
+
+/**
+ * Encode a solve from the session timeline the server recorded. Returns null if the
+ * timeline doesn't end on the solution (e.g. its oldest events were dropped).
+ */
+export function buildReplay(
+  puzzle: Pick<Puzzle, 'cipherText' | 'seed'>,
+  timeline: ReplayEvent[]
+): string | null {
+  const hints = new Set<string>();
+  let mappings: Record<string, string> = {};
+  for (const event of timeline) mappings = applyReplayEvent(mappings, hints, event);
+  return validatePuzzle(puzzle, mappings).isSolved ? encodeReplay(timeline) : null;
+}
+
+/**
+ * Store a solve's timeline. Malformed timelines are ignored; returns whether it was saved.
+ */
+export async function saveReplay(
+  puzzleId: string,
+  username: string,
+  replay: string
+): Promise<boolean> {
+  if (decodeReplay(replay) === null) return false;
+  await store.set(replayKey(puzzleId, username), replay, {
+    expiration: new Date(Date.now() + RETENTION.dailyLeaderboardDays * DAY_MS),
+  });
+  return true;
+}
+
+/**
+ * Get a stored timeline, or null if the user has no replay for the puzzle
+ */
+export async function getReplay(puzzleId: string, username: string): Promise<string | null> {
+  return (await store.get(replayKey(puzzleId, username))) ?? null;
+}
+
+/**
+ * Delete the replays of several players for one puzzle (retention cleanup)
+ */
+export async function deleteReplays(puzzleId: string, usernames: string[]): Promise<void> {
+  if (usernames.length === 0) return;
+  await store.del(...usernames.map((username) => replayKey(puzzleId, username)));
+}
+
+/**
+ * Delete one player's replays for several puzzles (data deletion)
+ */
+export async function deleteUserReplays(username: string, puzzleIds: string[]): Promise<void> {
+  if (puzzleIds.length === 0) return;
+  await store.del(...puzzleIds.map((puzzleId) => replayKey(puzzleId, username)));
+}
@@ -0,0 +1,86 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { MemoryStore } from '../core/memory-store';
+import { setStore, store } from '../core/store';
+import { addHistoryEntry, getHistoryEntries } from './history';
+import { addLeaderboardScore, getLeaderboardSize, leaderboardBoardId } from './leaderboard';
+import { resetDailyPuzzle, runRetentionCleanup } from './retention';
+import { getSession, startSession } from './session';
+
+const PUZZLE = 'daily-2026-01-01';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const score = (username: string) => ({ username, score: 400, time: 90, hintsUsed: 0, mistakes: 0 });
+
+describe('retention', () => {
+  beforeEach(() => {
+    setStore(new MemoryStore());
+  });
+
+  it("resets every player's state for a re-rolled daily", async () => {
+    await startSession(PUZZLE, 'alice');
+    await startSession(PUZZLE, 'bob');
+    await addLeaderboardScore(PUZZLE, score('alice'));
+    await store.set(`score:${PUZZLE}:alice`, '{}');
+    await addHistoryEntry('bob', {
+      puzzleId: PUZZLE,
+      date: '2026-01-01',
+      score: 0,
+      time: 30,
+      hintsUsed: 0,
+      mistakes: 0,
+      mode: 'daily',
+      postLink: '',
+      subreddit: 'books',
+      title: '',
+      isInProgress: true,
+    });
+
+    expect(await resetDailyPuzzle(PUZZLE)).toBe(2);
+    expect(await getSession(PUZZLE, 'alice')).toBeNull();
+    expect(await getSession(PUZZLE, 'bob')).toBeNull();
+    expect(await getLeaderboardSize(PUZZLE)).toBe(0);
+    expect(await store.exists(`score:${PUZZLE}:alice`)).toBe(0);
+    expect(await getHistoryEntries('bob', [PUZZLE])).toEqual([null]);
+  });
+
+  it("keeps an expired puzzle's archive board while it still takes scores", async () => {
+    const dateAgo = (days: number) =>
+      new Date(Date.now() - days * DAY_MS).toISOString().split('T')[0] ?? '';
+    const expiredId = `daily-${dateAgo(190)}`;
+    const archiveId = leaderboardBoardId(expiredId, 'archive');
+    await addLeaderboardScore(expiredId, score('alice'));
+    await store.set(`score:${expiredId}:alice`, '{}');
+    await addLeaderboardScore(archiveId, score('bob'));
+    await store.set(`score:${expiredId}:bob`, '{}');
+    // Start the date pass just before the expired puzzle
+    await store.set('retention:daily-cursor', dateAgo(191));
+
+    const summary = await runRetentionCleanup('test');
+    expect(summary.removed.dailyLeaderboards).toBe(1);
+    expect(summary.removed.archiveLeaderboards).toBe(0);
+    expect(await getLeaderboardSize(expiredId)).toBe(0);
+    expect(await store.exists(`score:${expiredId}:alice`)).toBe(0);
+    expect(await getLeaderboardSize(archiveId)).toBe(1);
+    expect(await store.exists(`score:${expiredId}:bob`)).toBe(1);
+  });
+
+  it('prunes archive boards by their last write', async () => {
+    const archiveId = leaderboardBoardId(PUZZLE, 'archive');
+    await addLeaderboardScore(archiveId, score('alice'));
+    await store.set(`score:${PUZZLE}:alice`, '{}');
+    await addLeaderboardScore(leaderboardBoardId('daily-2026-01-02', 'archive'), score('bob'));
+    // Dates are all pruned already; only the archive index is left to act on
+    await store.set('retention:daily-cursor', '9999-12-31');
+    // Backdate one board's last write past the retention period
+    await store.zAdd('leaderboard:archive-boards', {
+      member: PUZZLE,
+      score: Date.now() - 365 * DAY_MS,
+    });
+
+    const summary = await runRetentionCleanup('test');
+    expect(summary.removed.archiveLeaderboards).toBe(1);
+    expect(await getLeaderboardSize(archiveId)).toBe(0);
+    expect(await store.exists(`score:${PUZZLE}:alice`)).toBe(0);
+    expect(await getLeaderboardSize(leaderboardBoardId('daily-2026-01-02', 'archive'))).toBe(1);
+  });
+});
@@ -0,0 +1,208 @@
+// Data retention - scheduled cleanup of data older than the RETENTION policy
+// Live daily leaderboards are pruned with their score records and replays, oldest
+// puzzle first; archive boards (and their players' records) by their last write; paused and practice history
+// entries and held scores via their own indexes.
+// Work is done in batches, so a large backlog is cleared over several runs.
+
+import { store } from '../core/store';
+import { RETENTION } from '../config';
+import type { LeaderboardBoard } from '../../shared/types/api';
+import { pruneReviewQueue, removeFlaggedScore } from './anti-cheat';
+import { deleteHistoryEntry, pruneInProgressHistory, prunePracticeHistory } from './history';
+import {
+  deleteArchiveBoard,
+  deleteLeaderboard,
+  getLeaderboardUsernames,
+  getStaleArchiveBoards,
+  leaderboardBoardId,
+} from './leaderboard';
+import { getDatesSinceLaunch } from './puzzle';
+import { deleteReplays } from './replay';
+import { deletePuzzleSessions } from './session';
+
+/** Sorted set of CleanupSummary JSON scored by ranAt */
+const RETENTION_LOG_KEY = 'retention:runs';
+/** Date (YYYY-MM-DD) of the newest daily puzzle already pruned */
+const DAILY_CURSOR_KEY = 'retention:daily-cursor';
+const SCORE_PREFIX = 'score:';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CleanupSummary {
+  /** What started the run, e.g. 'scheduler' or 'admin' */
+  trigger: string;
+  ranAt: number;
+  durationMs: number;
+  removed: {
+    dailyLeaderboards: number;
+    /** Score records and replays of players on pruned live and archive boards */
+    dailyScores: number;
+    /** Archive boards with no new scores within the retention period */
+    archiveLeaderboards: number;
+    inProgressHistory: number;
+    practiceHistory: number;
+    /** Held scores dropped without a moderator decision */
+    flaggedScores: number;
+  };
+  /** False if the run hit its batch budget; the next run carries on */
+  complete: boolean;
+  error?: string;
+}
+
+/**
+ * Delete one of a daily puzzle's boards with its players' score records and replays.
+ * Returns the number of players removed and the batches used.
+ */
+async function pruneBoard(
+  puzzleId: string,
+  board: LeaderboardBoard
+): Promise<{ players: number; batches: number }> {
+  const usernames = await getLeaderboardUsernames(leaderboardBoardId(puzzleId, board));
+  let batches = 0;
+  for (let i = 0; i < usernames.length; i += RETENTION.batchSize) {
+    const chunk = usernames.slice(i, i + RETENTION.batchSize);
+    await store.del(...chunk.map((username) => `${SCORE_PREFIX}${puzzleId}:${username}`));
+    await deleteReplays(puzzleId, chunk);
+    batches++;
+  }
+  if (board === 'live') await deleteLeaderboard(puzzleId);
+  else await deleteArchiveBoard(puzzleId);
+  return { players: usernames.length, batches: Math.max(batches, 1) };
+}
+
+/**
+ * Delete every player's state for a daily puzzle that is about to be replaced:
+ * sessions, history entries and held scores, plus both boards and what pruneBoard removes.
+ * Returns the number of players affected.
+ */
+export async function resetDailyPuzzle(puzzleId: string): Promise<number> {
+  const usernames = new Set([
+    ...(await deletePuzzleSessions(puzzleId)),
+    ...(await getLeaderboardUsernames(puzzleId)),
+    ...(await getLeaderboardUsernames(leaderboardBoardId(puzzleId, 'archive'))),
+  ]);
+  for (const username of usernames) {
+    await deleteHistoryEntry(username, puzzleId);
+    await removeFlaggedScore(puzzleId, username);
+  }
+  await pruneBoard(puzzleId, 'live');
+  await pruneBoard(puzzleId, 'archive');
+  return usernames.size;
+}
+
+/**
+ * Run one cleanup pass and append its summary to the log
+ */
+export async function runRetentionCleanup(trigger: string): Promise<CleanupSummary> {
+  const ranAt = Date.now();
+  const summary: CleanupSummary = {
+    trigger,
+    ranAt,
+    durationMs: 0,
+    removed: {
+      dailyLeaderboards: 0,
+      dailyScores: 0,
+      archiveLeaderboards: 0,
+      inProgressHistory: 0,
+      practiceHistory: 0,
+      flaggedScores: 0,
+    },
+    complete: true,
+  };
+  let batches = 0;
+  const hasBudget = () => batches < RETENTION.maxBatchesPerRun;
+
+  try {
+    // Daily puzzles, oldest first, resuming after the last one pruned
+    const cursor = (await store.get(DAILY_CURSOR_KEY)) ?? '';
+    const expired = getDatesSinceLaunch(
+      new Date(ranAt - RETENTION.dailyLeaderboardDays * DAY_MS)
+    ).filter((date) => date > cursor);
+    for (const date of expired) {
+      if (!hasBudget()) {
+        summary.complete = false;
+        break;
+      }
+      // Archive boards are left to their own pass; they may still be taking scores
+      const pruned = await pruneBoard(`daily-${date}`, 'live');
+      batches += pruned.batches;
+      if (pruned.players > 0) summary.removed.dailyLeaderboards++;
+      summary.removed.dailyScores += pruned.players;
+      await store.set(DAILY_CURSOR_KEY, date);
+    }
+
+    // Archive boards go once they stop taking scores, whatever the puzzle's date
+    let moreBoards = true;
+    while (moreBoards && hasBudget()) {
+      const stale = await getStaleArchiveBoards(
+        ranAt - RETENTION.dailyLeaderboardDays * DAY_MS,
+        RETENTION.batchSize
+      );
+      for (const puzzleId of stale) {
+        const pruned = await pruneBoard(puzzleId, 'archive');
+        batches += pruned.batches;
+        summary.removed.dailyScores += pruned.players;
+      }
+      summary.removed.archiveLeaderboards += stale.length;
+      moreBoards = stale.length === RETENTION.batchSize;
+      batches++;
+    }
+    if (moreBoards) summary.complete = false;
+
+    const indexed = [
+      {
+        prune: pruneInProgressHistory,
+        days: RETENTION.inProgressHistoryDays,
+        field: 'inProgressHistory',
+      },
+      {
+        prune: prunePracticeHistory,
+        days: RETENTION.practiceHistoryDays,
+        field: 'practiceHistory',
+      },
+      {
+        prune: pruneReviewQueue,
+        days: RETENTION.reviewQueueDays,
+        field: 'flaggedScores',
+      },
+    ] as const;
+    for (const { prune, days, field } of indexed) {
+      let more = true;
+      while (more && hasBudget()) {
+        const result = await prune(ranAt - days * DAY_MS, RETENTION.batchSize);
+        summary.removed[field] += result.removed;
+        more = result.more;
+        batches++;
+      }
+      if (more) summary.complete = false;
+    }
+  } catch (error) {
+    summary.error = error instanceof Error ? error.message : String(error);
+    summary.complete = false;
+    console.error('Retention cleanup failed:', error);
+  }
+
+  summary.durationMs = Date.now() - ranAt;
+  await appendToLog(summary);
+  console.log(`Retention cleanup (${trigger}): ${JSON.stringify(summary.removed)}`);
+  return summary;
+}
+
+async function appendToLog(summary: CleanupSummary): Promise<void> {
+  await store.zAdd(RETENTION_LOG_KEY, { member: JSON.stringify(summary), score: summary.ranAt });
+  const overflow = (await store.zCard(RETENTION_LOG_KEY)) - RETENTION.logEntries;
+  if (overflow > 0) {
+    const oldest = await store.zRange(RETENTION_LOG_KEY, 0, overflow - 1, { by: 'rank' });
+    await store.zRem(
+      RETENTION_LOG_KEY,
+      oldest.map((entry) => entry.member)
+    );
+  }
+}
+
+/**
+ * Recent cleanup run summaries, newest first
+ */
+export async function getRetentionLog(): Promise<CleanupSummary[]> {
+  const runs = await store.zRange(RETENTION_LOG_KEY, 0, -1, { by: 'rank', reverse: true });
+  return runs.map((run) => JSON.parse(run.member) as CleanupSummary);
+}
@@ -0,0 +1,155 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { MemoryStore } from '../core/memory-store';
+import { setStore } from '../core/store';
+import {
+  deletePuzzleSessions,
+  finishSession,
+  getPlayedPuzzleIds,
+  getSession,
+  pauseSession,
+  recordGuess,
+  recordHint,
+  recordRemoval,
+  startSession,
+} from './session';
+
+const PUZZLE = 'daily-2026-01-01';
+const LETTERS = ['A', 'B', 'C', 'D', 'E'];
+
+/** Hint picker: the first letter not yet revealed */
+const pickNext = (revealed: string[]) => {
+  const cipherLetter = LETTERS.find((letter) => !revealed.includes(letter));
+  return cipherLetter ? { cipherLetter, plainLetter: 'Z' } : null;
+};
+
+describe('session', () => {
+  beforeEach(() => {
+    setStore(new MemoryStore());
+  });
+
+  it('starts once and keeps the first start time', async () => {
+    const first = await startSession(PUZZLE, 'alice');
+    const again = await startSession(PUZZLE, 'alice');
+    expect(again.startedAt).toBe(first.startedAt);
+    expect(again.timeline).toEqual([]);
+  });
+
+  it('records guesses in the timeline and counts mistakes', async () => {
+    await startSession(PUZZLE, 'alice');
+    await recordGuess(PUZZLE, 'alice', 'A', 'E', true);
+    expect(await recordGuess(PUZZLE, 'alice', 'B', 'T', false)).toEqual({
+      status: 'recorded',
+      mistakes: 1,
+    });
+
+    const session = await getSession(PUZZLE, 'alice');
+    expect(session?.timeline.map((event) => event.type)).toEqual(['map', 'map']);
+  });
+
+  it('records removals and clears without counting mistakes', async () => {
+    await startSession(PUZZLE, 'alice');
+    await recordGuess(PUZZLE, 'alice', 'A', 'Q', false);
+    await recordRemoval(PUZZLE, 'alice', 'A');
+    expect(await recordRemoval(PUZZLE, 'alice', null)).toEqual({ status: 'recorded', mistakes: 1 });
+
+    const session = await getSession(PUZZLE, 'alice');
+    expect(session?.timeline.map((event) => event.type)).toEqual(['map', 'remove', 'clear']);
+  });
+
+  it('stops revealing hints at the limit', async () => {
+    await startSession(PUZZLE, 'alice');
+    const results = [];
+    for (let i = 0; i < 4; i++) results.push(await recordHint(PUZZLE, 'alice', 3, pickNext));
+
+    expect(results.map((result) => result.status)).toEqual([
+      'revealed',
+      'revealed',
+      'revealed',
+      'limit',
+    ]);
+    const session = await getSession(PUZZLE, 'alice');
+    expect(session?.hintsUsed).toBe(3);
+    expect(Object.keys(session?.hints ?? {})).toEqual(['A', 'B', 'C']);
+  });
+
+  it('ignores guesses and hints while paused', async () => {
+    await startSession(PUZZLE, 'alice');
+    await pauseSession(PUZZLE, 'alice');
+
+    expect((await recordHint(PUZZLE, 'alice', 3, pickNext)).status).toBe('paused');
+    expect((await recordGuess(PUZZLE, 'alice', 'A', 'Q', false)).status).toBe('paused');
+    const session = await getSession(PUZZLE, 'alice');
+    expect(session?.timeline).toEqual([]);
+    expect(session?.mistakes).toBe(0);
+
+    // Serving the puzzle again resumes it
+    await startSession(PUZZLE, 'alice');
+    expect((await recordHint(PUZZLE, 'alice', 3, pickNext)).status).toBe('revealed');
+  });
+
+  it('will not finish a paused session', async () => {
+    await startSession(PUZZLE, 'alice');
+    await pauseSession(PUZZLE, 'alice');
+
+    expect((await finishSession(PUZZLE, 'alice'))?.finishedAt).toBeUndefined();
+    await startSession(PUZZLE, 'alice');
+    expect((await finishSession(PUZZLE, 'alice'))?.finishedAt).toBeDefined();
+  });
+
+  it('ignores input after the finish', async () => {
+    await startSession(PUZZLE, 'alice');
+    await finishSession(PUZZLE, 'alice');
+
+    expect((await recordHint(PUZZLE, 'alice', 3, pickNext)).status).toBe('inactive');
+    expect((await recordGuess(PUZZLE, 'alice', 'A', 'Q', false)).status).toBe('inactive');
+    expect((await getSession(PUZZLE, 'alice'))?.mistakes).toBe(0);
+  });
+
+  it('rejects guesses before the puzzle is served', async () => {
+    expect((await recordGuess(PUZZLE, 'alice', 'A', 'Q', false)).status).toBe('inactive');
+    expect(await getSession(PUZZLE, 'alice')).toBeNull();
+  });
+
+  it('indexes started puzzles for players but not guests', async () => {
+    await startSession(PUZZLE, 'alice');
+    await startSession('daily-2026-01-02', 'alice');
+    await startSession(PUZZLE, 'guest~0123456789abcdef');
+
+    expect(await getPlayedPuzzleIds('alice')).toEqual([PUZZLE, 'daily-2026-01-02']);
+    expect(await getPlayedPuzzleIds('guest~0123456789abcdef')).toEqual([]);
+  });
+
+  it('deletes every session of a puzzle', async () => {
+    await startSession(PUZZLE, 'alice');
+    await startSession(PUZZLE, 'bob');
+
+    expect((await deletePuzzleSessions(PUZZLE)).sort()).toEqual(['alice', 'bob']);
+    expect(await getSession(PUZZLE, 'alice')).toBeNull();
+    expect(await getSession(PUZZLE, 'bob')).toBeNull();
+  });
+
+  describe('concurrent updates', () => {
+    it('keeps every parallel guess', async () => {
+      await startSession(PUZZLE, 'alice');
+      await Promise.all(LETTERS.map((letter) => recordGuess(PUZZLE, 'alice', letter, 'Q', false)));
+
+      const session = await getSession(PUZZLE, 'alice');
+      expect(session?.mistakes).toBe(LETTERS.length);
+      expect(
+        session?.timeline.map((event) => ('cipher' in event ? event.cipher : '')).sort()
+      ).toEqual(LETTERS);
+    });
+
+    it('never spends more hints than the limit', async () => {
+      await startSession(PUZZLE, 'alice');
+      const results = await Promise.all(
+        LETTERS.map(() => recordHint(PUZZLE, 'alice', 3, pickNext))
+      );
+
+      expect(results.filter((result) => result.status === 'revealed')).toHaveLength(3);
+      const session = await getSession(PUZZLE, 'alice');
+      expect(session?.hintsUsed).toBe(3);
+      expect(Object.keys(session?.hints ?? {}).sort()).toEqual(['A', 'B', 'C']);
+    });
+  });
+});
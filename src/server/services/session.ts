@@ -0,0 +1,328 @@
+// Play session tracking - server-side timing, hints and mistakes for each user + puzzle
+// Start time is recorded when a puzzle is first served, finish time when validate first reports a solve
+// Each player's started puzzles are indexed, so their data can be found without scanning
+// every puzzle: scores, board entries, replays and held scores all follow a session.
+
+import { isGuestName } from '../core/auth';
+import { withLock } from '../core/lock';
+import { store } from '../core/store';
+import type { SessionProgress } from '../../shared/types/api';
+import { MAX_REPLAY_EVENTS, type ReplayEvent } from '../../shared/cryptogram/replay';
+import { RETENTION } from '../config';
+
+const SESSION_PREFIX = 'session:';
+/** Sorted set per puzzle of usernames with a session, scored by last visit */
+const PLAYERS_PREFIX = 'session-players:';
+/**
+ * Sorted set per player of puzzle ids they have started, scored by first visit.
+ * Outlives the sessions themselves; guests are not indexed (nothing shared is kept for them).
+ */
+const PLAYED_PREFIX = 'player-puzzles:';
+const DAY_SECONDS = 24 * 60 * 60;
+
+export interface PlaySession {
+  /** ms timestamp when the puzzle was first served to this user */
+  startedAt: number;
+  /** ms timestamp when validate first reported isSolved */
+  finishedAt?: number;
+  /** ms timestamp of the current pause (unset while playing) */
+  pausedAt?: number;
+  /** Total ms spent paused (completed pauses only) */
+  pausedMs: number;
+  hintsUsed: number;
+  mistakes: number;
+  /** Letters revealed by hints: cipher letter -> plain letter */
+  hints: Record<string, string>;
+  /**
+   * Letter guesses ('map'), removals ('remove'), clears ('clear') and hint reveals
+   * ('hint'), oldest first, timed in ms of active play. The solve replay is built from
+   * this, not from the client.
+   */
+  timeline: ReplayEvent[];
+}
+
+function sessionKey(puzzleId: string, username: string): string {
+  return `${SESSION_PREFIX}${puzzleId}:${username}`;
+}
+
+function playersKey(puzzleId: string): string {
+  return `${PLAYERS_PREFIX}${puzzleId}`;
+}
+
+function playedKey(username: string): string {
+  return `${PLAYED_PREFIX}${username}`;
+}
+
+/** Serialises read-modify-write updates of one session (hints, guesses) */
+function sessionLock(puzzleId: string, username: string): string {
+  return `${SESSION_PREFIX}${puzzleId}:${username}`;
+}
+
+function parseSession(fields: Record<string, string>): PlaySession | null {
+  if (!fields.startedAt) return null;
+  const session: PlaySession = {
+    startedAt: Number(fields.startedAt),
+    pausedMs: Number(fields.pausedMs ?? 0),
+    hintsUsed: Number(fields.hintsUsed ?? 0),
+    mistakes: Number(fields.mistakes ?? 0),
+    hints: fields.hints ? (JSON.parse(fields.hints) as Record<string, string>) : {},
+    timeline: fields.timeline ? (JSON.parse(fields.timeline) as ReplayEvent[]) : [],
+  };
+  if (fields.finishedAt) session.finishedAt = Number(fields.finishedAt);
+  if (fields.pausedAt) session.pausedAt = Number(fields.pausedAt);
+  return session;
+}
+
+/** ms of active play so far in an unpaused, unfinished session */
+function activePlayMs(session: PlaySession, now: number): number {
+  return Math.max(0, now - session.startedAt - session.pausedMs);
+}
+
+/** The timeline with `event` appended, keeping the newest events if it is full */
+function withEvent(session: PlaySession, event: ReplayEvent): ReplayEvent[] {
+  return [...session.timeline, event].slice(-MAX_REPLAY_EVENTS);
+}
+
+/**
+ * Get the play session for a user + puzzle, or null if the puzzle was never served to them
+ */
+export async function getSession(puzzleId: string, username: string): Promise<PlaySession | null> {
+  return parseSession(await store.hGetAll(sessionKey(puzzleId, username)));
+}
+
+/**
+ * Record that a puzzle was served. Starts the clock the first time; if the session
+ * is paused, the pause ends here. Finished sessions are left untouched.
+ */
+export async function startSession(puzzleId: string, username: string): Promise<PlaySession> {
+  const key = sessionKey(puzzleId, username);
+  const now = Date.now();
+  await store.hSetNX(key, 'startedAt', now.toString());
+  // Every visit pushes expiry back, so only abandoned sessions lapse
+  await store.expire(key, RETENTION.sessionDays * DAY_SECONDS);
+  await store.zAdd(playersKey(puzzleId), { member: username, score: now });
+  await store.expire(playersKey(puzzleId), RETENTION.sessionDays * DAY_SECONDS);
+  if (!isGuestName(username) && (await store.zScore(playedKey(username), puzzleId)) === undefined) {
+    await indexPlayedPuzzle(username, puzzleId);
+  }
+
+  const session = parseSession(await store.hGetAll(key));
+  if (!session) throw new Error(`Failed to start session for ${puzzleId}`);
+
+  if (session.pausedAt !== undefined && session.finishedAt === undefined) {
+    session.pausedMs += now - session.pausedAt;
+    delete session.pausedAt;
+    await store.hSet(key, { pausedMs: session.pausedMs.toString() });
+    await store.hDel(key, ['pausedAt']);
+  }
+  return session;
+}
+
+/**
+ * Stop the clock until the puzzle is served (or resumed) again
+ */
+export async function pauseSession(puzzleId: string, username: string): Promise<void> {
+  const key = sessionKey(puzzleId, username);
+  const session = parseSession(await store.hGetAll(key));
+  if (!session || session.finishedAt !== undefined || session.pausedAt !== undefined) return;
+  await store.hSet(key, { pausedAt: Date.now().toString() });
+}
+
+/**
+ * Record the finish time the first time a solve is confirmed. A paused session is left
+ * unfinished: time spent paused never counts, so the clock must be running to stop it.
+ * Returns the session, or null if the puzzle was never served to this user.
+ */
+export async function finishSession(
+  puzzleId: string,
+  username: string
+): Promise<PlaySession | null> {
+  const key = sessionKey(puzzleId, username);
+  return withLock(sessionLock(puzzleId, username), async () => {
+    const session = parseSession(await store.hGetAll(key));
+    if (!session || session.finishedAt !== undefined || session.pausedAt !== undefined) {
+      return session;
+    }
+
+    session.finishedAt = Date.now();
+    await store.hSet(key, { finishedAt: session.finishedAt.toString() });
+    return session;
+  });
+}
+
+/** Outcome of a hint request; only 'revealed' consumed a hint */
+export type HintReveal =
+  | { status: 'revealed'; cipherLetter: string; plainLetter: string; hintsUsed: number }
+  | { status: 'inactive' | 'paused' | 'limit' | 'exhausted' };
+
+/**
+ * Reveal a hint against an active (unfinished, unpaused) session, up to `maxHints`.
+ * `pick` chooses the letter given the cipher letters already revealed. The limit check
+ * and the write share the session lock, so parallel requests can't overspend.
+ */
+export async function recordHint(
+  puzzleId: string,
+  username: string,
+  maxHints: number,
+  pick: (revealed: string[]) => { cipherLetter: string; plainLetter: string } | null
+): Promise<HintReveal> {
+  const key = sessionKey(puzzleId, username);
+  return withLock(sessionLock(puzzleId, username), async () => {
+    const session = parseSession(await store.hGetAll(key));
+    if (!session || session.finishedAt !== undefined) return { status: 'inactive' };
+    if (session.pausedAt !== undefined) return { status: 'paused' };
+    if (session.hintsUsed >= maxHints) return { status: 'limit' };
+
+    const hint = pick(Object.keys(session.hints));
+    if (!hint) return { status: 'exhausted' };
+
+    const hintsUsed = session.hintsUsed + 1;
+    await store.hSet(key, {
+      hints: JSON.stringify({ ...session.hints, [hint.cipherLetter]: hint.plainLetter }),
+      hintsUsed: hintsUsed.toString(),
+      timeline: JSON.stringify(
+        withEvent(session, {
+          t: activePlayMs(session, Date.now()),
+          type: 'hint',
+          cipher: hint.cipherLetter,
+          plain: hint.plainLetter,
+        })
+      ),
+    });
+    return { status: 'revealed', ...hint, hintsUsed };
+  });
+}
+
+/** Outcome of a guess or removal; only 'recorded' joined the timeline */
+export type GuessRecord =
+  | { status: 'recorded'; mistakes: number }
+  | { status: 'inactive' | 'paused' };
+
+/**
+ * Record a letter guess against an active (unfinished, unpaused) session: it joins the
+ * timeline, and counts as a mistake if it was wrong.
+ */
+export async function recordGuess(
+  puzzleId: string,
+  username: string,
+  cipherLetter: string,
+  plainLetter: string,
+  correct: boolean
+): Promise<GuessRecord> {
+  const key = sessionKey(puzzleId, username);
+  return withLock(sessionLock(puzzleId, username), async () => {
+    const session = parseSession(await store.hGetAll(key));
+    if (!session || session.finishedAt !== undefined) return { status: 'inactive' };
+    if (session.pausedAt !== undefined) return { status: 'paused' };
+
+    await store.hSet(key, {
+      timeline: JSON.stringify(
+        withEvent(session, {
+          t: activePlayMs(session, Date.now()),
+          type: 'map',
+          cipher: cipherLetter,
+          plain: plainLetter,
+        })
+      ),
+    });
+    const mistakes = correct ? session.mistakes : await store.hIncrBy(key, 'mistakes', 1);
+    return { status: 'recorded', mistakes };
+  });
+}
+
+/**
+ * Record a letter removal against an active session, or a clear of the whole board
+ * when `cipherLetter` is null. Neither counts as a mistake.
+ */
+export async function recordRemoval(
+  puzzleId: string,
+  username: string,
+  cipherLetter: string | null
+): Promise<GuessRecord> {
+  const key = sessionKey(puzzleId, username);
+  return withLock(sessionLock(puzzleId, username), async () => {
+    const session = parseSession(await store.hGetAll(key));
+    if (!session || session.finishedAt !== undefined) return { status: 'inactive' };
+    if (session.pausedAt !== undefined) return { status: 'paused' };
+
+    const t = activePlayMs(session, Date.now());
+    await store.hSet(key, {
+      timeline: JSON.stringify(
+        withEvent(
+          session,
+          cipherLetter === null ? { t, type: 'clear' } : { t, type: 'remove', cipher: cipherLetter }
+        )
+      ),
+    });
+    return { status: 'recorded', mistakes: session.mistakes };
+  });
+}
+
+/**
+ * Delete one player's sessions for several puzzles (data deletion)
+ */
+export async function deleteSessions(username: string, puzzleIds: string[]): Promise<void> {
+  if (puzzleIds.length === 0) return;
+  await store.del(...puzzleIds.map((puzzleId) => sessionKey(puzzleId, username)));
+  for (const puzzleId of puzzleIds) {
+    await store.zRem(playersKey(puzzleId), [username]);
+  }
+}
+
+/**
+ * Add a puzzle to a player's started-puzzles index (also used to backfill it)
+ */
+export async function indexPlayedPuzzle(username: string, puzzleId: string): Promise<void> {
+  await store.zAdd(playedKey(username), { member: puzzleId, score: Date.now() });
+}
+
+/**
+ * Every puzzle a player has started, oldest first
+ */
+export async function getPlayedPuzzleIds(username: string): Promise<string[]> {
+  const puzzles = await store.zRange(playedKey(username), 0, -1, { by: 'rank' });
+  return puzzles.map((item) => item.member);
+}
+
+/**
+ * Drop a player's started-puzzles index (data deletion)
+ */
+export async function clearPlayedPuzzles(username: string): Promise<void> {
+  await store.del(playedKey(username));
+}
+
+/**
+ * Delete every session for one puzzle (daily re-roll).
+ * Returns the usernames whose sessions were removed.
+ */
+export async function deletePuzzleSessions(puzzleId: string): Promise<string[]> {
+  const usernames = (await store.zRange(playersKey(puzzleId), 0, -1, { by: 'rank' })).map(
+    (item) => item.member
+  );
+  if (usernames.length > 0) {
+    await store.del(...usernames.map((username) => sessionKey(puzzleId, username)));
+  }
+  await store.del(playersKey(puzzleId));
+  return usernames;
+}
+
+/**
+ * Seconds of active play: finish (or now) minus start, minus time spent paused
+ */
+export function getElapsedSeconds(session: PlaySession, now: number = Date.now()): number {
+  const end = session.finishedAt ?? session.pausedAt ?? now;
+  const activeMs = end - session.startedAt - session.pausedMs;
+  return Math.max(0, Math.floor(activeMs / 1000));
+}
+
+/**
+ * Client-facing view of a session, used to restore hints and counters after a reload
+ */
+export function toSessionProgress(session: PlaySession, now: number = Date.now()): SessionProgress {
+  return {
+    elapsedTime: getElapsedSeconds(session, now),
+    hintsUsed: session.hintsUsed,
+    mistakes: session.mistakes,
+    hints: session.hints,
+  };
+}
@@ -0,0 +1,136 @@
+// User data - export and self-service deletion of everything stored about one player
+// Per-user keys can't be listed, so puzzles are enumerated instead: every puzzle the
+// player started a session on, plus whatever their history mentions.
+
+import { store } from '../core/store';
+import type {
+  FlaggedScore,
+  LeaderboardBoard,
+  LeaderboardEntry,
+  PlayHistoryEntry,
+} from '../../shared/types/api';
+import type { Score } from '../../shared/types/puzzle';
+import { RETENTION } from '../config';
+import { getFlaggedScore, removeFlaggedScore } from './anti-cheat';
+import { clearHistory, queryHistory } from './history';
+import { getLeaderboardEntry, leaderboardBoardId, removeLeaderboardEntry } from './leaderboard';
+import { getDatesSinceLaunch } from './puzzle';
+import { deleteUserReplays, getReplay } from './replay';
+import { clearPlayedPuzzles, deleteSessions, getPlayedPuzzleIds, getSession } from './session';
+import type { PlaySession } from './session';
+
+const SCORE_PREFIX = 'score:';
+const BOARDS: LeaderboardBoard[] = ['live', 'archive'];
+
+export interface UserDataExport {
+  username: string;
+  /** ISO timestamp */
+  exportedAt: string;
+  /** Newest first */
+  history: PlayHistoryEntry[];
+  /** Submitted daily scores */
+  scores: Score[];
+  leaderboards: (LeaderboardEntry & { puzzleId: string; board: LeaderboardBoard })[];
+  /** Server-side play sessions by puzzle id */
+  sessions: Record<string, PlaySession>;
+  /** Encoded solve replays by puzzle id */
+  replays: Record<string, string>;
+  /** Scores held for moderator review */
+  flaggedScores: FlaggedScore[];
+}
+
+export interface UserDataRemoved {
+  history: number;
+  scores: number;
+  leaderboardEntries: number;
+  flaggedScores: number;
+}
+
+/**
+ * Every puzzle the player may have data for: those they started plus their history.
+ * Recent dailies are always included, since sessions started before the started-puzzles
+ * index existed may not have lapsed yet.
+ */
+async function puzzleIdsFor(username: string, history: PlayHistoryEntry[]): Promise<string[]> {
+  const ids = new Set(await getPlayedPuzzleIds(username));
+  for (const date of getDatesSinceLaunch().slice(-RETENTION.sessionDays)) ids.add(`daily-${date}`);
+  for (const entry of history) ids.add(entry.puzzleId);
+  return [...ids];
+}
+
+async function getFullHistory(username: string): Promise<PlayHistoryEntry[]> {
+  return (await queryHistory(username, {}, Number.MAX_SAFE_INTEGER)).entries;
+}
+
+/**
+ * Gather everything stored about a player
+ */
+export async function exportUserData(username: string): Promise<UserDataExport> {
+  const history = await getFullHistory(username);
+  const bundle: UserDataExport = {
+    username,
+    exportedAt: new Date().toISOString(),
+    history,
+    scores: [],
+    leaderboards: [],
+    sessions: {},
+    replays: {},
+    flaggedScores: [],
+  };
+
+  for (const puzzleId of await puzzleIdsFor(username, history)) {
+    const score = await store.get(`${SCORE_PREFIX}${puzzleId}:${username}`);
+    if (score) bundle.scores.push(JSON.parse(score) as Score);
+
+    for (const board of BOARDS) {
+      const entry = await getLeaderboardEntry(leaderboardBoardId(puzzleId, board), username);
+      if (entry) bundle.leaderboards.push({ ...entry, puzzleId, board });
+    }
+
+    const session = await getSession(puzzleId, username);
+    if (session) bundle.sessions[puzzleId] = session;
+
+    const replay = await getReplay(puzzleId, username);
+    if (replay) bundle.replays[puzzleId] = replay;
+
+    const flagged = await getFlaggedScore(puzzleId, username);
+    if (flagged) bundle.flaggedScores.push(flagged);
+  }
+  return bundle;
+}
+
+/**
+ * Delete everything stored about a player. Moderator ban records are kept.
+ */
+export async function deleteUserData(username: string): Promise<UserDataRemoved> {
+  const puzzleIds = await puzzleIdsFor(username, await getFullHistory(username));
+  const removed: UserDataRemoved = {
+    history: await clearHistory(username),
+    scores: 0,
+    leaderboardEntries: 0,
+    flaggedScores: 0,
+  };
+
+  for (const puzzleId of puzzleIds) {
+    const scoreKey = `${SCORE_PREFIX}${puzzleId}:${username}`;
+    if ((await store.exists(scoreKey)) > 0) {
+      await store.del(scoreKey);
+      removed.scores++;
+    }
+    for (const board of BOARDS) {
+      if (await removeLeaderboardEntry(leaderboardBoardId(puzzleId, board), username)) {
+        removed.leaderboardEntries++;
+      }
+    }
+    if (await getFlaggedScore(puzzleId, username)) {
+      await removeFlaggedScore(puzzleId, username);
+      removed.flaggedScores++;
+    }
+  }
+  await deleteSessions(username, puzzleIds);
+  await deleteUserReplays(username, puzzleIds);
+  await clearPlayedPuzzles(username);
+
+  console.log(`Deleted stored data for ${username}: ${JSON.stringify(removed)}`);
+  return removed;
+}
@@ -0,0 +1,101 @@
+// Solve replays - compact encoding of a player's mapping timeline
+// Recorded by the server from a play session's guesses, removals, clears and hints, stored
+// per user + puzzle, replayed by the viewer.
+
+/** One step of a solve, `t` = ms since the puzzle clock started */
+export type ReplayEvent =
+  | { t: number; type: 'map'; cipher: string; plain: string }
+  | { t: number; type: 'remove'; cipher: string }
+  | { t: number; type: 'hint'; cipher: string; plain: string }
+  | { t: number; type: 'clear' };
+
+/** Events kept per solve; anything beyond is dropped by the recorder */
+export const MAX_REPLAY_EVENTS = 500;
+
+// Encoded form: comma-separated events, each `<deciseconds base36><op><letters>`
+// e.g. "1k=AE,2b-A,30?QZ,3f!" (map A->E, remove A, hint Q->Z, clear)
+const OP_CODES = { map: '=', remove: '-', hint: '?', clear: '!' } as const;
+const EVENT_PATTERN = /^([0-9a-z]+)([=\-?!])([A-Z]{0,2})$/;
+
+/**
+ * Encode a timeline for storage
+ */
+export function encodeReplay(events: ReplayEvent[]): string {
+  return events
+    .slice(0, MAX_REPLAY_EVENTS)
+    .map((event) => {
+      const time = Math.max(0, Math.round(event.t / 100)).toString(36);
+      const op = OP_CODES[event.type];
+      switch (event.type) {
+        case 'map':
+        case 'hint':
+          return `${time}${op}${event.cipher}${event.plain}`;
+        case 'remove':
+          return `${time}${op}${event.cipher}`;
+        case 'clear':
+          return `${time}${op}`;
+      }
+    })
+    .join(',');
+}
+
+/**
+ * Decode a stored timeline. Returns null if the string is malformed.
+ */
+export function decodeReplay(encoded: string): ReplayEvent[] | null {
+  if (!encoded) return [];
+  const parts = encoded.split(',');
+  if (parts.length > MAX_REPLAY_EVENTS) return null;
+
+  const events: ReplayEvent[] = [];
+  for (const part of parts) {
+    const match = EVENT_PATTERN.exec(part);
+    if (!match) return null;
+    const [, time = '0', op, letters = ''] = match;
+    const t = parseInt(time, 36) * 100;
+    const cipher = letters[0];
+    const plain = letters[1];
+
+    if ((op === '=' || op === '?') && cipher && plain) {
+      events.push({ t, type: op === '=' ? 'map' : 'hint', cipher, plain });
+    } else if (op === '-' && cipher && !plain) {
+      events.push({ t, type: 'remove', cipher });
+    } else if (op === '!' && !letters) {
+      events.push({ t, type: 'clear' });
+    } else {
+      return null;
+    }
+  }
+  return events;
+}
+
+/**
+ * Apply one event to the board state, following the game's rules: a plain letter
+ * maps to one cipher letter at a time, and hint letters survive removals and clears.
+ */
+export function applyReplayEvent(
+  mappings: Record<string, string>,
+  hints: Set<string>,
+  event: ReplayEvent
+): Record<string, string> {
+  switch (event.type) {
+    case 'map':
+    case 'hint': {
+      const next: Record<string, string> = {};
+      for (const [cipher, plain] of Object.entries(mappings)) {
+        if (plain !== event.plain) next[cipher] = plain;
+      }
+      next[event.cipher] = event.plain;
+      if (event.type === 'hint') hints.add(event.cipher);
+      return next;
+    }
+    case 'remove': {
+      if (hints.has(event.cipher)) return mappings;
+      const next = { ...mappings };
+      delete next[event.cipher];
+      return next;
+    }
+    case 'clear':
+      return Object.fromEntries(Object.entries(mappings).filter(([cipher]) => hints.has(cipher)));
+  }
+}
@@ -1,12 +1,26 @@
 // API request/response types
 
-import type { Puzzle, GameState, Score, ShareResult } from './puzzle';
+import type { ClientPuzzle, GameState, PuzzleReveal, Score, ShareResult } from './puzzle';
+
+/** Request header with a logged-out player's device-local id */
+export const GUEST_ID_HEADER = 'X-Guest-Id';
+
+// ===== Init API =====
+
+export interface InitResponse {
+  type: 'init';
+  postId: string;
+  count: number;
+  username: string;
+  /** Puzzle this post plays (today's daily for posts without a binding) */
+  puzzleId: string;
+}
 
 // ===== Puzzle API =====
 
 export interface GetDailyPuzzleResponse {
   type: 'daily-puzzle';
-  puzzle: Puzzle;
+  puzzle: ClientPuzzle;
   puzzleNumber: number; // Days since launch or similar
   /** True if the current user already completed today's puzzle */
   completed?: boolean;
@@ -20,6 +34,41 @@ export interface GetDailyPuzzleResponse {
     date: string;
     username: string;
   };
+  /** Answer and source post when completed is true */
+  reveal?: PuzzleReveal;
+  /** Server-side progress when reopening an unfinished daily */
+  progress?: SessionProgress;
+  /** True for a past day's puzzle played from the archive */
+  archive?: boolean;
+}
+
+/** Query string for GET /api/puzzle/archive */
+export interface ArchivePuzzleQuery {
+  /** Past UTC date, YYYY-MM-DD (launch through yesterday) */
+  date?: string;
+}
+
+/** One past daily in the archive, with the current user's result */
+export interface ArchiveDay {
+  date: string;
+  puzzleNumber: number;
+  status: 'solved' | 'in-progress' | 'unplayed';
+}
+
+export interface GetArchiveDaysResponse {
+  type: 'archive-days';
+  /** Newest first */
+  days: ArchiveDay[];
+}
+
+/** Server-recorded state of a user's play session for one puzzle */
+export interface SessionProgress {
+  /** Server-timed seconds played so far */
+  elapsedTime: number;
+  hintsUsed: number;
+  mistakes: number;
+  /** Letters revealed by hints: cipher letter -> plain letter */
+  hints: Record<string, string>;
 }
 
 /** One past play for history (view original post, success rate, resume in-progress) */
@@ -36,12 +85,14 @@ export interface PlayHistoryEntry {
   title: string;
   /** True when user skipped or left without solving; has savedPuzzle + userMappings for resume */
   isInProgress?: boolean;
-  /** Full puzzle JSON for resume (only when isInProgress) */
-  savedPuzzle?: Puzzle;
+  /** Client puzzle for resume (only when isInProgress) */
+  savedPuzzle?: ClientPuzzle;
   /** Cipher letter -> plain letter (only when isInProgress) */
   userMappings?: Record<string, string>;
   /** Elapsed seconds when saved (only when isInProgress) */
   elapsedTime?: number;
+  /** When the entry was recorded (ms since epoch); orders history and pages it */
+  playedAt?: number;
 }
 
 export interface GetPracticePuzzleRequest {
@@ -50,38 +101,70 @@ export interface GetPracticePuzzleRequest {
 
 export interface GetPracticePuzzleResponse {
   type: 'practice-puzzle';
-  puzzle: Puzzle;
+  puzzle: ClientPuzzle;
 }
 
 export interface ValidatePuzzleRequest {
-  puzzleId: string;
+  token: string;
   userMappings: Record<string, string>;
-  /** Required for practice puzzles (server doesn't cache them): seed + cipherText to validate */
-  seed?: string;
-  cipherText?: string;
 }
 
 export interface ValidatePuzzleResponse {
   type: 'validate';
+  /** Only the solved state is returned; per-letter counts would leak the answer */
   isSolved: boolean;
-  correctMappings: number;
-  totalMappings: number;
+  /** Present only when isSolved is true */
+  reveal?: PuzzleReveal;
+}
+
+export interface SubmitGuessRequest {
+  token: string;
+  /**
+   * 'map' (default) checks cipherLetter -> plainLetter; 'remove' unmaps cipherLetter;
+   * 'clear' unmaps every letter not given by a hint
+   */
+  action?: 'map' | 'remove' | 'clear';
+  /** Required for 'map' and 'remove' */
+  cipherLetter?: string;
+  /** Required for 'map' */
+  plainLetter?: string;
+}
+
+export interface SubmitGuessResponse {
+  type: 'guess';
+  /** Unset for removals and clears */
+  correct?: boolean;
+  /** Wrong guesses recorded so far for this puzzle */
+  mistakes: number;
+}
+
+export interface GetHintRequest {
+  token: string;
+  /** Cipher letters the player has already mapped or been given; never hinted again */
+  exclude: string[];
+}
+
+export interface GetHintResponse {
+  type: 'hint';
+  cipherLetter: string;
+  plainLetter: string;
+  /** Hints used so far for this puzzle, including this one */
+  hintsUsed: number;
+}
+
+export interface ResumePuzzleRequest {
+  token: string;
+}
+
+export interface ResumePuzzleResponse {
+  type: 'resume';
+  progress: SessionProgress;
 }
 
 // ===== Score API =====
 
 export interface SubmitScoreRequest {
-  puzzleId: string;
-  time: number;
-  hintsUsed: number;
-  mistakes: number;
-  mode: 'daily' | 'practice';
-  /** For play history: link to original Reddit post */
-  postLink?: string;
-  /** For play history: subreddit (e.g. r/Showerthoughts) */
-  subreddit?: string;
-  /** For play history: puzzle title */
-  title?: string;
+  token: string;
 }
 
 export interface SubmitScoreResponse {
@@ -89,6 +172,57 @@ export interface SubmitScoreResponse {
   score: Score;
   rank?: number; // User's rank on the leaderboard (1-indexed)
   totalPlayers?: number; // Total players on leaderboard
+  /** True when the score is held for moderator review instead of ranked */
+  underReview?: boolean;
+  /** True for logged-out players: the score is not saved or ranked */
+  guest?: boolean;
+  /** Board the daily score went to (or joins once approved) */
+  board?: LeaderboardBoard;
+}
+
+// ===== Replay API =====
+
+export interface GetReplayResponse {
+  type: 'replay';
+  puzzleId: string;
+  username: string;
+  cipherText: string;
+  /** Encoded mapping timeline (see shared/cryptogram/replay) */
+  replay: string;
+}
+
+// ===== Score Review API (moderators) =====
+
+/** Why a score was held for review */
+export type AnomalyReason = 'too_fast' | 'uniform_input' | 'missing_input' | 'banned_user';
+
+export interface FlaggedScore {
+  /** `<puzzleId>:<username>` */
+  id: string;
+  score: Score;
+  reasons: AnomalyReason[];
+  flaggedAt: number;
+  /** Board an approved score joins; missing means live */
+  board?: LeaderboardBoard;
+}
+
+export type ReviewAction = 'approve' | 'reject' | 'ban';
+
+export interface GetReviewQueueResponse {
+  type: 'review-queue';
+  items: FlaggedScore[];
+  total: number;
+}
+
+export interface ResolveReviewRequest {
+  id: string;
+  action: ReviewAction;
+}
+
+export interface ResolveReviewResponse {
+  type: 'review-resolved';
+  id: string;
+  action: ReviewAction;
 }
 
 // ===== Leaderboard API =====
@@ -99,24 +233,54 @@ export interface LeaderboardEntry {
   score: number;
   time: number;
   hintsUsed: number;
+  /** Missing on entries recorded before mistakes were tracked */
+  mistakes?: number;
+}
+
+/**
+ * `live`: solves made on the puzzle's own day; `archive`: later solves, ranked
+ * separately so they don't distort the day's board
+ */
+export type LeaderboardBoard = 'live' | 'archive';
+
+/** `page`: fixed pages from the top; `around`: a page centred on the current user */
+export type LeaderboardView = 'page' | 'around';
+
+/** Query string for GET /api/leaderboard/daily (all optional) */
+export interface LeaderboardQuery {
+  /** Defaults to today's daily puzzle */
+  puzzleId?: string;
+  /** Defaults to live */
+  board?: LeaderboardBoard;
+  view?: LeaderboardView;
+  /** 1-indexed page for the `page` view (default 1) */
+  page?: string;
+  /** Entries per page (default 10, max 50) */
+  pageSize?: string;
 }
 
 export interface GetLeaderboardResponse {
   type: 'leaderboard';
   puzzleId: string;
+  board: LeaderboardBoard;
   entries: LeaderboardEntry[];
   userRank?: number; // Current user's rank if on leaderboard
   userEntry?: LeaderboardEntry; // Current user's entry if on leaderboard
   totalPlayers: number;
+  /** View actually served; `around` falls back to page 1 if the user has no score */
+  view: LeaderboardView;
+  /** Page served (`page` view only) */
+  page?: number;
+  pageSize: number;
+  /** True for logged-out players, who can't join the board */
+  guest?: boolean;
 }
 
 // ===== Share API =====
 
+/** Time, hints and score come from the caller's stored score or finished session */
 export interface GenerateShareRequest {
   puzzleId: string;
-  time: number;
-  hintsUsed: number;
-  score: number;
 }
 
 export interface GenerateShareResponse {
@@ -126,22 +290,35 @@ export interface GenerateShareResponse {
 
 // ===== History API =====
 
+/** Query string for GET /api/score/history (all optional) */
+export interface ScoreHistoryQuery {
+  /** `nextCursor` from the previous page */
+  cursor?: string;
+  /** Page size (default 20, max 100) */
+  limit?: string;
+  mode?: 'daily' | 'practice';
+  subreddit?: string;
+  /** Earliest play date, YYYY-MM-DD (UTC, inclusive) */
+  from?: string;
+  /** Latest play date, YYYY-MM-DD (UTC, inclusive) */
+  to?: string;
+  /** 'true' to return only paused puzzles */
+  inProgress?: string;
+}
+
 export interface GetScoreHistoryResponse {
   type: 'score-history';
+  /** Newest first */
   history: PlayHistoryEntry[];
+  /** Present when more entries match; pass back as `cursor` */
+  nextCursor?: string;
+  /** True for logged-out players, whose history is temporary */
+  guest?: boolean;
 }
 
 export interface SaveProgressRequest {
-  puzzleId: string;
-  puzzle: Puzzle;
+  token: string;
   userMappings: Record<string, string>;
-  elapsedTime: number;
-  hintsUsed: number;
-  mistakes: number;
-  mode: 'daily' | 'practice';
-  postLink?: string;
-  subreddit?: string;
-  title?: string;
 }
 
 export interface SaveProgressResponse {
@@ -150,7 +327,13 @@ export interface SaveProgressResponse {
 
 // ===== Error Response =====
 
+/** Machine-readable reason for an error the client may want to handle specially */
+export type ErrorCode = 'forbidden' | 'rate_limited';
+
 export interface ErrorResponse {
   status: 'error';
+  code?: ErrorCode;
   message: string;
+  /** Seconds until the request may be retried (rate_limited only) */
+  retryAfter?: number;
 }
@@ -26,8 +26,37 @@ export interface Puzzle {
   mode: 'daily' | 'practice';
 }
 
+/** Post details that are safe to show before the puzzle is solved (no title, id or link) */
+export interface PuzzleSourceMeta {
+  subreddit: string;
+  author: string;
+  upvotes: number;
+}
+
+/**
+ * Puzzle as sent to the client. Carries no plainText or seed; the client passes
+ * `token` back to the server for guesses, hints and validation.
+ */
+export interface ClientPuzzle {
+  id: string;
+  /** Opaque token identifying this puzzle to the server */
+  token: string;
+  cipherText: string;
+  meta: PuzzleSourceMeta;
+  date: string; // ISO date string
+  mode: 'daily' | 'practice';
+}
+
+/** Answer and source post, only sent once the server confirms a solve */
+export interface PuzzleReveal {
+  plainText: string;
+  source: RedditPost;
+}
+
 export interface GameState {
-  puzzle: Puzzle | null;
+  puzzle: ClientPuzzle | null;
+  /** Set once the server confirms the puzzle is solved */
+  reveal: PuzzleReveal | null;
   userMappings: Record<string, string>; // cipherLetter -> plainLetter
   selectedCipher: string | null;
   hintsUsed: number;
@@ -58,6 +87,9 @@ export interface ShareResult {
   postLink: string;
 }
 
+/** Hints allowed per puzzle (enforced by the server) */
+export const MAX_HINTS = 3;
+
 /**
  * Calculate score based on time, hints, and mistakes
  * 